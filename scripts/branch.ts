@@ -0,0 +1,374 @@
+/**
+ * Manages a feature branch spanning several repos as one unit.
+ *
+ * Usage:
+ *   sandstone-work branch create <name>    - Create the branch from the current commit and switch to it
+ *   sandstone-work branch switch <name>    - Switch to the branch where it exists (locally or on origin)
+ *   sandstone-work branch delete <name>    - Switch back to the default branch and delete the branch
+ *   sandstone-work branch sync <name>      - Rebase the branch onto the repo's default branch
+ *   sandstone-work branch status <name>    - Show where the branch exists and its unpushed commits
+ *
+ * Options:
+ *   --only <repos>   Only these repos (comma-separated short names)
+ *   --skip <repos>   Skip these repos (comma-separated short names)
+ *   --merge          sync: merge the default branch instead of rebasing
+ *   --force          delete: delete even if not merged
+ *   --remote         delete: also delete the branch on origin
+ *
+ * Without filters, `create` applies to every cloned repo and the other commands to every repo
+ * having the branch. The default branch comes from `upstream` for forks, `origin` otherwise.
+ * A rebase or merge with conflicts is aborted, leaving the repo as it was.
+ */
+
+import { $ } from 'bun'
+import { join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { fileExists } from './lib/fs.ts'
+import { getDefaultBranch, getGitBranch, getGitRemoteUrl, getWorkingTreeCounts } from './lib/git.ts'
+import { type RepoEntry, loadManifest, selectRepos } from './lib/manifest.ts'
+import { exec } from './lib/run.ts'
+import { excerpt, printTable } from './lib/tasks.ts'
+
+type Command = 'create' | 'switch' | 'delete' | 'sync' | 'status'
+
+interface Options {
+  command: Command
+  branch: string
+  only?: string[]
+  skip?: string[]
+  merge: boolean
+  force: boolean
+  remote: boolean
+}
+
+interface Outcome {
+  repo: string
+  result: string
+  detail: string
+  failed?: boolean
+}
+
+const COMMANDS: Command[] = ['create', 'switch', 'delete', 'sync', 'status']
+
+function getOptions(args: ParsedArgs): Options {
+  const [command, branch] = args.positionals
+  if (!COMMANDS.includes(command as Command) || !branch || args.positionals.length > 2) {
+    throw new Error(`Expected <${COMMANDS.join('|')}> <branch> (see --help)`)
+  }
+  return {
+    command: command as Command,
+    branch,
+    only: args.list('only'),
+    skip: args.list('skip'),
+    merge: args.flag('merge'),
+    force: args.flag('force'),
+    remote: args.flag('remote'),
+  }
+}
+
+async function git(dir: string, ...args: string[]): Promise<$.ShellOutput> {
+  return await $`git -C ${dir} ${args}`.quiet().nothrow()
+}
+
+/** Like `git`, for the commands changing the repo. */
+async function gitExec(dir: string, ...args: string[]): Promise<$.ShellOutput> {
+  return await exec(['git', '-C', dir, ...args], { quiet: true, nothrow: true })
+}
+
+async function refExists(dir: string, ref: string): Promise<boolean> {
+  return (await git(dir, 'rev-parse', '--verify', '--quiet', ref)).exitCode === 0
+}
+
+async function countCommits(dir: string, range: string): Promise<number> {
+  return Number((await git(dir, 'rev-list', '--count', range)).stdout.toString().trim()) || 0
+}
+
+/** `upstream` for forks, `origin` otherwise, with its default branch. */
+async function getBase(dir: string): Promise<{ remote: string; branch: string } | null> {
+  const remote = (await getGitRemoteUrl(dir, 'upstream')) ? 'upstream' : 'origin'
+  const branch = await getDefaultBranch(dir, remote)
+  return branch ? { remote, branch } : null
+}
+
+async function hasBranch(dir: string, branch: string): Promise<boolean> {
+  return (await refExists(dir, `refs/heads/${branch}`)) || (await refExists(dir, `refs/remotes/origin/${branch}`))
+}
+
+/** Description of uncommitted changes and untracked files (checkouts can clash with them), or null on a clean tree. */
+async function getDirtyReason(dir: string): Promise<string | null> {
+  const { dirty, untracked } = await getWorkingTreeCounts(dir)
+  const reasons = [
+    dirty > 0 && `${dirty} uncommitted change${dirty === 1 ? '' : 's'}`,
+    untracked > 0 && `${untracked} untracked file${untracked === 1 ? '' : 's'}`,
+  ].filter(Boolean)
+  return reasons.length > 0 ? reasons.join(', ') : null
+}
+
+async function create(repo: RepoEntry, branch: string): Promise<Outcome> {
+  const outcome: Outcome = { repo: repo.shortName, result: 'created', detail: '' }
+  if (await refExists(repo.dir, `refs/heads/${branch}`)) {
+    return await switchTo(repo, branch)
+  }
+  const from = (await getGitBranch(repo.dir)) || 'detached HEAD'
+  const result = await gitExec(repo.dir, 'checkout', '-b', branch)
+  if (result.exitCode !== 0) {
+    return { ...outcome, result: 'failed', detail: excerpt(result), failed: true }
+  }
+  outcome.detail = `from ${from}`
+  return outcome
+}
+
+async function switchTo(repo: RepoEntry, branch: string): Promise<Outcome> {
+  const outcome: Outcome = { repo: repo.shortName, result: 'switched', detail: '' }
+  if ((await getGitBranch(repo.dir)) === branch) {
+    return { ...outcome, result: 'unchanged', detail: 'already on the branch' }
+  }
+  // Creates a tracking branch from origin/<branch> when there is no local one
+  const result = await gitExec(repo.dir, 'checkout', branch)
+  if (result.exitCode !== 0) {
+    return { ...outcome, result: 'failed', detail: excerpt(result), failed: true }
+  }
+  return outcome
+}
+
+async function remove(repo: RepoEntry, options: Options): Promise<Outcome> {
+  const { branch } = options
+  const outcome: Outcome = { repo: repo.shortName, result: 'deleted', detail: '' }
+  const fail = (detail: string) => ({ ...outcome, result: 'failed', detail, failed: true })
+
+  if ((await getGitBranch(repo.dir)) === branch) {
+    const base = await getBase(repo.dir)
+    if (!base) {
+      return fail('on the branch and no default branch found to switch to')
+    }
+    const checkout = await gitExec(repo.dir, 'checkout', base.branch)
+    if (checkout.exitCode !== 0) {
+      return fail(`switching to ${base.branch} failed: ${excerpt(checkout)}`)
+    }
+    outcome.detail = `switched to ${base.branch}`
+  }
+
+  if (await refExists(repo.dir, `refs/heads/${branch}`)) {
+    const result = await gitExec(repo.dir, 'branch', options.force ? '-D' : '-d', branch)
+    if (result.exitCode !== 0) {
+      return fail(/not fully merged/.test(result.stderr.toString()) ? 'not fully merged (use --force)' : excerpt(result))
+    }
+  }
+
+  if (options.remote && (await refExists(repo.dir, `refs/remotes/origin/${branch}`))) {
+    const push = await gitExec(repo.dir, 'push', 'origin', '--delete', branch)
+    if (push.exitCode !== 0) {
+      return fail(`deleting origin/${branch} failed: ${excerpt(push)}`)
+    }
+    outcome.detail = [outcome.detail, 'deleted on origin'].filter(Boolean).join(', ')
+  }
+
+  return outcome
+}
+
+async function sync(repo: RepoEntry, options: Options): Promise<Outcome> {
+  const { branch } = options
+  const outcome: Outcome = { repo: repo.shortName, result: 'synced', detail: '' }
+  const fail = (detail: string) => ({ ...outcome, result: 'failed', detail, failed: true })
+
+  if (!(await refExists(repo.dir, `refs/heads/${branch}`))) {
+    return { ...outcome, result: 'skipped', detail: 'no local branch (use switch first)' }
+  }
+  const dirty = await getDirtyReason(repo.dir)
+  if (dirty) {
+    return { ...outcome, result: 'skipped', detail: dirty }
+  }
+
+  const base = await getBase(repo.dir)
+  if (!base) {
+    return fail('no default branch found')
+  }
+  const fetch = await gitExec(repo.dir, 'fetch', base.remote)
+  if (fetch.exitCode !== 0) {
+    return fail(`fetching ${base.remote} failed: ${excerpt(fetch)}`)
+  }
+
+  const onto = `${base.remote}/${base.branch}`
+  const behind = await countCommits(repo.dir, `${branch}..${onto}`)
+  if (behind === 0) {
+    return { ...outcome, result: 'unchanged', detail: `up to date with ${onto}` }
+  }
+
+  const current = await getGitBranch(repo.dir)
+  const pushed = await refExists(repo.dir, `refs/remotes/origin/${branch}`)
+
+  if (options.merge) {
+    const checkout = await gitExec(repo.dir, 'checkout', branch)
+    if (checkout.exitCode !== 0) {
+      return fail(`checking out ${branch} failed: ${excerpt(checkout)}`)
+    }
+    const merge = await gitExec(repo.dir, 'merge', '--no-edit', onto)
+    if (merge.exitCode !== 0) {
+      await gitExec(repo.dir, 'merge', '--abort')
+      outcome.result = 'conflict'
+    }
+  } else {
+    // Checks out the branch
+    const rebase = await gitExec(repo.dir, 'rebase', onto, branch)
+    if (rebase.exitCode !== 0) {
+      await gitExec(repo.dir, 'rebase', '--abort')
+      outcome.result = 'conflict'
+    }
+  }
+
+  if (current && current !== branch) {
+    await gitExec(repo.dir, 'checkout', current)
+  }
+
+  if (outcome.result === 'conflict') {
+    const action = options.merge ? 'merge' : 'rebase'
+    return { ...outcome, detail: `${action} onto ${onto} aborted, resolve it by hand`, failed: true }
+  }
+  outcome.detail = `${options.merge ? 'merged' : 'rebased onto'} ${onto} (${behind} new commit${behind === 1 ? '' : 's'})`
+  if (pushed && !options.merge) {
+    outcome.detail += ', push with --force-with-lease'
+  }
+  return outcome
+}
+
+async function status(repos: RepoEntry[], branch: string) {
+  const rows: string[][] = []
+  const results: { repo: string; current: boolean; local: boolean; remote: boolean; unpushed: string[] }[] = []
+  const unpushed: { repo: string; commits: string[] }[] = []
+
+  for (const repo of repos) {
+    const local = await refExists(repo.dir, `refs/heads/${branch}`)
+    const remote = await refExists(repo.dir, `refs/remotes/origin/${branch}`)
+    const current = (await getGitBranch(repo.dir)) === branch
+
+    const base = await getBase(repo.dir)
+    const onto =
+      base && (await refExists(repo.dir, `refs/remotes/${base.remote}/${base.branch}`))
+        ? `${base.remote}/${base.branch}`
+        : null
+    const tip = local ? branch : `origin/${branch}`
+
+    let vsDefault = '-'
+    if (onto) {
+      const ahead = await countCommits(repo.dir, `${onto}..${tip}`)
+      const behind = await countCommits(repo.dir, `${tip}..${onto}`)
+      vsDefault = `${ahead} ahead, ${behind} behind ${onto}`
+    }
+
+    let push = 'remote only'
+    let commits: string[] = []
+    if (local) {
+      // Without a remote branch, everything not on the default branch is unpushed
+      const range = remote ? `origin/${branch}..${branch}` : onto ? `${onto}..${branch}` : branch
+      const log = await git(repo.dir, 'log', '--format=%h %s', range)
+      commits = log.stdout.toString().split('\n').filter(Boolean)
+      if (commits.length > 0) {
+        unpushed.push({ repo: repo.shortName, commits })
+      }
+      const count = `${commits.length} unpushed`
+      push = remote ? (commits.length > 0 ? count : 'pushed') : `not on origin${commits.length > 0 ? `, ${count}` : ''}`
+    }
+
+    rows.push([repo.shortName, current ? 'yes' : 'no', vsDefault, push])
+    results.push({ repo: repo.shortName, current, local, remote, unpushed: commits })
+  }
+
+  if (rows.length === 0) {
+    console.log(`No repo has a branch named ${branch}.`)
+    return []
+  }
+
+  printTable(['repo', 'current', 'vs default branch', 'push'], rows)
+  for (const { repo, commits } of unpushed) {
+    console.log(`\n${repo}: ${commits.length} unpushed commit${commits.length === 1 ? '' : 's'}`)
+    for (const commit of commits) {
+      console.log(`  ${commit}`)
+    }
+  }
+  return results
+}
+
+async function branch(args: ParsedArgs) {
+  const options = getOptions(args)
+
+  const manifest = await loadManifest()
+  const cloned: RepoEntry[] = []
+  for (const repo of selectRepos(manifest, options.only, options.skip)) {
+    if (!repo.project && (await fileExists(join(repo.dir, '.git')))) {
+      cloned.push(repo)
+    }
+  }
+
+  // Only `create` brings the branch into repos not having it yet
+  const repos: RepoEntry[] = []
+  for (const repo of cloned) {
+    if (options.command === 'create' || (await hasBranch(repo.dir, options.branch))) {
+      repos.push(repo)
+    } else if (options.only) {
+      console.log(`${repo.shortName}: no branch named ${options.branch}`)
+    }
+  }
+
+  if (options.command === 'status') {
+    return await status(repos, options.branch)
+  }
+
+  const outcomes: Outcome[] = []
+  for (const repo of repos) {
+    if (options.command === 'create') {
+      outcomes.push(await create(repo, options.branch))
+    } else if (options.command === 'switch') {
+      outcomes.push(await switchTo(repo, options.branch))
+    } else if (options.command === 'delete') {
+      outcomes.push(await remove(repo, options))
+    } else {
+      outcomes.push(await sync(repo, options))
+    }
+  }
+
+  if (outcomes.length === 0) {
+    console.log(`No repo has a branch named ${options.branch}.`)
+    return []
+  }
+
+  printTable(['repo', 'result', 'details'], outcomes.map((o) => [o.repo, o.result, o.detail]))
+
+  const failed = outcomes.filter((o) => o.failed).length
+  if (failed > 0) {
+    console.log(`\n${failed} repo${failed === 1 ? '' : 's'} failed.`)
+    process.exitCode = 1
+  }
+  return outcomes
+}
+
+export const branchCommand: CommandSpec = {
+  name: 'branch',
+  summary: 'Create, switch, delete, sync or inspect a feature branch across repos',
+  usage: '<create|switch|delete|sync|status> <branch>',
+  description: [
+    'Commands:',
+    '  create <name>   Create the branch from the current commit and switch to it',
+    '  switch <name>   Switch to the branch where it exists (locally or on origin)',
+    '  delete <name>   Switch back to the default branch and delete the branch',
+    '  sync <name>     Rebase (or merge) the default branch into the branch',
+    '  status <name>   Show where the branch exists and its unpushed commits',
+  ].join('\n'),
+  options: [
+    { name: 'only', type: 'repos', description: 'Only these repos' },
+    { name: 'skip', type: 'repos', description: 'Skip these repos' },
+    { name: 'merge', type: 'flag', description: 'sync: merge the default branch instead of rebasing' },
+    { name: 'force', type: 'flag', description: 'delete: delete even if not merged' },
+    { name: 'remote', type: 'flag', description: 'delete: also delete the branch on origin' },
+  ],
+  dryRun: true,
+  examples: [
+    'branch create feat/new-resource --only sandstone,cli,template',
+    'branch sync feat/new-resource',
+    'branch status feat/new-resource',
+  ],
+  run: branch,
+}
+
+if (import.meta.main) {
+  await runCommand(branchCommand, process.argv.slice(2))
+}
@@ -0,0 +1,83 @@
+/**
+ * Checks that the local packages are compatible with the repos consuming them, as `link` does before
+ * linking: each local version must satisfy the range it would replace and the peer ranges of the other
+ * local packages it would be linked next to.
+ *
+ * Usage:
+ *   sandstone-work check                     - Print the compatibility matrix of every consumer
+ *   sandstone-work check --into template     - Only these consumer repos (comma-separated short names)
+ *   sandstone-work check --package sandstone - Only these packages (comma-separated package names)
+ *
+ * Links that are already in place are checked against the ranges they replaced. Exits with 1 on a
+ * mismatch, see lib/compat.ts for the rules.
+ */
+
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { type CompatTarget, checkCompat, printCompatMatrix } from './lib/compat.ts'
+import { loadLinkState } from './lib/link-state.ts'
+import { loadManifest, selectRepos } from './lib/manifest.ts'
+import { scanWorkspace } from './lib/workspace.ts'
+
+async function check(args: ParsedArgs) {
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const into = args.list('into')
+  const names = args.list('package')
+
+  const repos = into ? selectRepos(manifest, into) : manifest.repos
+  for (const name of names ?? []) {
+    if (!workspace.packages.some((p) => p.name === name)) {
+      throw new Error(`Package "${name}" was not found in the workspace`)
+    }
+  }
+
+  // What `link` would link: every local dependency but peers, which it leaves alone
+  const targets: CompatTarget[] = workspace.consumers
+    .filter((consumer) => repos.includes(consumer.repo))
+    .map((consumer) => ({
+      consumer,
+      packages: [
+        ...new Set(consumer.dependencies.filter((d) => d.field !== 'peerDependencies').map((d) => d.pkg)),
+      ],
+    }))
+  const checks = checkCompat(workspace, targets, await loadLinkState()).filter(
+    (c) => !names || names.includes(c.name)
+  )
+
+  if (checks.length === 0) {
+    console.log('No local package ranges to check.')
+    return { checks }
+  }
+
+  printCompatMatrix(checks)
+  console.log('')
+  const mismatches = checks.filter((c) => !c.ok)
+  if (mismatches.length === 0) {
+    console.log('All local versions satisfy the ranges they would replace.')
+  } else {
+    console.log(`${mismatches.length} mismatch${mismatches.length === 1 ? '' : 'es'}: \`link\` will refuse them`)
+    console.log('unless --ignore-compat is passed.')
+    process.exitCode = 1
+  }
+
+  return { checks }
+}
+
+export const checkCommand: CommandSpec = {
+  name: 'check',
+  summary: 'Check the local package versions against the ranges and peers of their consumers',
+  description:
+    'Prints a consumer by package matrix of the ranges each local version is outside of, the same check ' +
+    '`link` does before linking.',
+  options: [
+    { name: 'into', type: 'repos', description: 'Only check these consumer repos' },
+    { name: 'package', type: 'list', value: '<names>', description: 'Only check these packages (package names)' },
+  ],
+  dryRun: true,
+  examples: ['check', 'check --into cli,template', 'check --package sandstone --json'],
+  run: check,
+}
+
+if (import.meta.main) {
+  await runCommand(checkCommand, process.argv.slice(2))
+}
@@ -0,0 +1,50 @@
+#!/usr/bin/env bun
+/**
+ * Entry point of the `sandstone-work` CLI, dispatching to the command scripts.
+ *
+ * Usage:
+ *   sandstone-work <command> [options]   - Run a command
+ *   sandstone-work <command> --help      - Show the options of a command
+ *   sandstone-work --help                - List the commands
+ *
+ * Every command also accepts --verbose and --json, and most of them --dry-run (see lib/cli.ts).
+ */
+
+import { branchCommand } from './branch.ts'
+import { checkCommand } from './check.ts'
+import { compareCommand } from './compare.ts'
+import { createCommand } from './create.ts'
+import { devCommand } from './dev.ts'
+import { doctorCommand } from './doctor.ts'
+import { eachCommand } from './each.ts'
+import { exportBundlesCommand } from './export-bundles.ts'
+import { hooksCommand } from './hooks.ts'
+import { runCli } from './lib/cli.ts'
+import { linkCommand, unlinkCommand } from './link.ts'
+import { releaseCommand } from './release.ts'
+import { setupCommand } from './setup.ts'
+import { snapshotCommand } from './snapshot.ts'
+import { statusCommand } from './status.ts'
+import { templateCommand } from './template.ts'
+
+await runCli(
+  [
+    setupCommand,
+    exportBundlesCommand,
+    statusCommand,
+    templateCommand,
+    createCommand,
+    linkCommand,
+    unlinkCommand,
+    checkCommand,
+    devCommand,
+    eachCommand,
+    branchCommand,
+    snapshotCommand,
+    compareCommand,
+    releaseCommand,
+    hooksCommand,
+    doctorCommand,
+  ],
+  process.argv.slice(2)
+)
@@ -0,0 +1,254 @@
+/**
+ * Compares the datapacks generated by the sandstone projects with the npm-published sandstone and
+ * with the local one, to see what a sandstone change does to real output.
+ *
+ * Usage:
+ *   sandstone-work compare                   - Build the template, playground and test projects against both, and diff
+ *   sandstone-work compare --only template   - Only these projects (comma-separated short names)
+ *   sandstone-work compare --save-baseline   - Also save the local output as the baseline
+ *   sandstone-work compare --baseline        - Diff the local output against the baseline instead, failing on drift
+ *
+ * Options:
+ *   --output <dir>   Build output directory of the projects (default: .sandstone/output)
+ *
+ * Only the sandstone dependency of the projects is switched, with `unlink`/`link --package sandstone`,
+ * and put back the way it was at the end. The outputs are kept in `.work/compare/<project>/`
+ * (`npm`, `local` and `baseline`), and diffed per resource: functions, advancements, tags...
+ * JSON is compared with normalized formatting (see lib/datapack-diff.ts).
+ */
+
+import { join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { type TreeChange, diffTrees, readTree } from './lib/datapack-diff.ts'
+import { copy, fileExists, removeFile } from './lib/fs.ts'
+import { type RepoEntry, loadManifest, selectRepos, stateDir } from './lib/manifest.ts'
+import { isLinked, isPacked } from './lib/package-json.ts'
+import { exec, globalOptions } from './lib/run.ts'
+import { excerpt } from './lib/tasks.ts'
+import { type Consumer, scanWorkspace } from './lib/workspace.ts'
+
+const compareDir = join(stateDir, 'compare')
+const linkScript = join(import.meta.dir, 'link.ts')
+const DEFAULT_PROJECTS = ['template', 'playground']
+const DEFAULT_OUTPUT = '.sandstone/output'
+
+type Side = 'npm' | 'local' | 'baseline'
+
+interface ProjectResult {
+  project: string
+  from: Side
+  to: Side
+  changes: TreeChange[]
+  /** Why the project couldn't be compared */
+  error?: string
+}
+
+/** Consumers of sandstone among the selected repos, defaulting to the template, playground and test projects. */
+async function getProjects(only?: string[]): Promise<Consumer[]> {
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const repos = only
+    ? selectRepos(manifest, only)
+    : manifest.repos.filter((r) => r.project || DEFAULT_PROJECTS.includes(r.shortName))
+
+  const projects: Consumer[] = []
+  for (const repo of repos) {
+    const consumer = workspace.consumers.find((c) => c.repo === repo && c.path === '.')
+    if (consumer?.dependencies.some((d) => d.pkg.name === 'sandstone') && consumer.json.scripts?.build) {
+      projects.push(consumer)
+    } else if (only) {
+      throw new Error(`${repo.shortName} is not a sandstone project with a build script`)
+    }
+  }
+  if (projects.length === 0) {
+    throw new Error(
+      'No sandstone project to compare. Clone sandstone-template or create one with `sandstone-work create`.'
+    )
+  }
+  return projects
+}
+
+function sandstoneSpecifier(project: Consumer): string {
+  return project.dependencies.find((d) => d.pkg.name === 'sandstone')!.specifier
+}
+
+/**
+ * Switches the sandstone dependency of the projects between npm and linked, through link.ts. Local
+ * sandstone is linked even outside of the projects' ranges: diffing against it is the point.
+ */
+async function useSandstone(projects: RepoEntry[], mode: 'npm' | 'link' | 'pack') {
+  if (projects.length === 0) {
+    return
+  }
+  const into = projects.map((p) => p.shortName).join(',')
+  const command = mode === 'npm' ? ['unlink'] : ['link', ...(mode === 'pack' ? ['--pack'] : []), '--ignore-compat']
+  console.log(`\n${mode === 'npm' ? 'Using npm sandstone' : 'Linking local sandstone'} in ${into}...`)
+  const result = await exec(['bun', linkScript, ...command, '--into', into, '--package', 'sandstone'], {
+    quiet: !globalOptions.verbose,
+    nothrow: true,
+  })
+  if (result.exitCode !== 0) {
+    throw new Error(`\`${command.join(' ')}\` failed: ${excerpt(result)}`)
+  }
+}
+
+/** Builds a project and keeps its output in `.work/compare/<project>/<side>`, returning an error if it failed. */
+async function capture(project: Consumer, side: Side, output: string): Promise<string | null> {
+  const outputDir = join(project.dir, output)
+  const target = join(compareDir, project.repo.shortName, side)
+
+  process.stdout.write(`Building ${project.repo.shortName} (${side} sandstone)... `)
+  await removeFile(outputDir)
+  const build = await exec(['bun', 'run', 'build'], { cwd: project.dir, quiet: true, nothrow: true })
+  if (build.exitCode !== 0) {
+    console.log('failed')
+    return `build failed with ${side} sandstone: ${excerpt(build)}`
+  }
+  if (!(await fileExists(outputDir))) {
+    console.log('no output')
+    return `the build wrote nothing to ${output} (see --output)`
+  }
+  console.log('done')
+
+  await removeFile(target)
+  await copy(outputDir, target)
+  return null
+}
+
+function printChanges(result: ProjectResult) {
+  const { project, from, to, changes, error } = result
+  if (error) {
+    console.log(`${project}: ${error}\n`)
+    return
+  }
+  if (changes.length === 0) {
+    console.log(`${project}: no differences between ${from} and ${to}\n`)
+    return
+  }
+
+  const count = (change: TreeChange['change']) => changes.filter((c) => c.change === change).length
+  const counts = `${count('changed')} changed, ${count('added')} added, ${count('removed')} removed`
+  console.log(`${project}: ${counts} (${from} -> ${to})`)
+
+  const symbols = { added: '+', removed: '-', changed: '~' }
+  for (const kind of new Set(changes.map((c) => c.kind))) {
+    console.log(`  ${kind}`)
+    for (const change of changes.filter((c) => c.kind === kind)) {
+      const added = change.diff.filter((l) => l.startsWith('+')).length
+      const lines = change.diff.length > 0 ? ` (+${added} -${change.diff.length - added})` : ''
+      console.log(`    ${symbols[change.change]} ${change.id}${lines}`)
+      if (globalOptions.verbose) {
+        for (const line of change.diff) {
+          console.log(`        ${line}`)
+        }
+      }
+    }
+  }
+  console.log('')
+}
+
+async function compare(args: ParsedArgs) {
+  const useBaseline = args.flag('baseline')
+  const saveBaseline = args.flag('save-baseline')
+  const output = args.string('output') ?? DEFAULT_OUTPUT
+
+  const projects = await getProjects(args.list('only'))
+  if (useBaseline) {
+    const missing = []
+    for (const project of projects) {
+      if (!(await fileExists(join(compareDir, project.repo.shortName, 'baseline')))) {
+        missing.push(project.repo.shortName)
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(
+        `No baseline for ${missing.join(', ')}. Save one with \`sandstone-work compare --save-baseline\`.`
+      )
+    }
+  }
+
+  // How each project uses sandstone now, to put it back at the end
+  const initial = new Map(projects.map((p) => [p, sandstoneSpecifier(p)]))
+  const errors = new Map<Consumer, string>()
+  const sides: Side[] = useBaseline ? ['local'] : ['npm', 'local']
+
+  try {
+    for (const side of sides) {
+      await useSandstone(projects.map((p) => p.repo), side === 'npm' ? 'npm' : 'link')
+      console.log('')
+      for (const project of projects.filter((p) => !errors.has(p))) {
+        const error = await capture(project, side, output)
+        if (error) {
+          errors.set(project, error)
+        }
+      }
+    }
+  } finally {
+    const restore = (test: (specifier: string) => boolean) =>
+      projects.filter((p) => test(initial.get(p)!)).map((p) => p.repo)
+    await useSandstone(restore((s) => !isLinked(s)), 'npm')
+    await useSandstone(restore((s) => isLinked(s) && !isPacked(s)), 'link')
+    await useSandstone(restore(isPacked), 'pack')
+  }
+
+  const from: Side = useBaseline ? 'baseline' : 'npm'
+  const results: ProjectResult[] = []
+  for (const project of projects) {
+    const name = project.repo.shortName
+    const error = errors.get(project)
+    const changes = error
+      ? []
+      : diffTrees(await readTree(join(compareDir, name, from)), await readTree(join(compareDir, name, 'local')))
+    results.push({ project: name, from, to: 'local', changes, error })
+  }
+
+  console.log('')
+  results.forEach(printChanges)
+
+  const built = results.filter((r) => !r.error).map((r) => r.project)
+  if (saveBaseline && built.length > 0) {
+    for (const project of built) {
+      await removeFile(join(compareDir, project, 'baseline'))
+      await copy(join(compareDir, project, 'local'), join(compareDir, project, 'baseline'))
+    }
+    console.log(`Saved the local output as the baseline of ${built.join(', ')}`)
+  }
+
+  if (results.some((r) => r.error)) {
+    process.exitCode = 1
+  } else if (useBaseline && results.some((r) => r.changes.length > 0)) {
+    console.log('The output drifted from the baseline.')
+    process.exitCode = 1
+  }
+
+  return { projects: results }
+}
+
+export const compareCommand: CommandSpec = {
+  name: 'compare',
+  summary: 'Diff the datapacks the projects generate with npm and local sandstone',
+  description:
+    'Builds the template, playground and test projects (or --only) with both, and lists the added, removed and ' +
+    'changed resources. The outputs are kept in .work/compare/.',
+  options: [
+    { name: 'only', type: 'repos', description: 'Only compare these projects' },
+    {
+      name: 'output',
+      type: 'string',
+      value: '<dir>',
+      description: `Build output directory of the projects (default: ${DEFAULT_OUTPUT})`,
+    },
+    { name: 'save-baseline', type: 'flag', description: 'Save the local output as the baseline' },
+    {
+      name: 'baseline',
+      type: 'flag',
+      description: 'Diff the local output against the saved baseline instead of npm, failing if it drifted',
+    },
+  ],
+  examples: ['compare', 'compare --only template --verbose', 'compare --save-baseline', 'compare --baseline'],
+  run: compare,
+}
+
+if (import.meta.main) {
+  await runCommand(compareCommand, process.argv.slice(2))
+}
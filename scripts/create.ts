@@ -0,0 +1,145 @@
+/**
+ * Creates a standalone test project from a sandstone-template branch, wired to the local packages.
+ *
+ * Usage:
+ *   sandstone-work create <name>                    - Create projects/<name> from the latest pack template
+ *   sandstone-work create <name> --library          - Use the latest library template
+ *   sandstone-work create <name> --version <range>  - Use the latest template matching a version/range
+ *   sandstone-work create <name> --ignore-compat    - Link even if the local packages are outside of its ranges
+ *
+ * The project is exported without git history, gets its dependencies installed and the local
+ * sandstone/sandstone-cli linked (see link.ts), and is registered in `.work/projects.json` so
+ * `status` and `unlink` handle it like the other repos. If installing or linking fails, the project
+ * is removed again.
+ */
+
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand, runSubcommand } from './lib/cli.ts'
+import { fileExists, removeFile } from './lib/fs.ts'
+import { getRepo, loadManifest, loadProjects, rootDir, saveProjects } from './lib/manifest.ts'
+import { exec } from './lib/run.ts'
+import { type TemplateType, findLatestBranch, getRemoteBranches, sortBranches } from './lib/templates.ts'
+import { linkCommand } from './link.ts'
+
+const PROJECTS_FOLDER = 'projects'
+
+async function create(args: ParsedArgs) {
+  const [name] = args.positionals
+  const type: TemplateType = args.flag('library') ? 'library' : 'pack'
+  const version = args.string('version')
+
+  if (!name) {
+    throw new Error('Missing the project name (see --help)')
+  }
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name)) {
+    throw new Error(`"${name}" is not a valid project name (letters, digits, ".", "_" and "-").`)
+  }
+
+  const manifest = await loadManifest()
+  if (manifest.repos.some((r) => r.shortName === name)) {
+    throw new Error(`"${name}" is already the name of a repo or project.`)
+  }
+
+  const folder = join(PROJECTS_FOLDER, name)
+  const projectDir = join(rootDir, folder)
+  if (await fileExists(projectDir)) {
+    throw new Error(`${folder} already exists.`)
+  }
+
+  const templateDir = getRepo(manifest, 'template').dir
+  if (!(await fileExists(templateDir))) {
+    throw new Error('sandstone-template not found. Run `sandstone-work setup` first.')
+  }
+
+  // Find the template branch
+  process.stdout.write('Fetching branches... ')
+  await exec(['git', '-C', templateDir, 'fetch', '--prune'], { quiet: true, nothrow: true })
+  console.log('done')
+
+  const branches = await getRemoteBranches(templateDir)
+  const branch = findLatestBranch(branches, type, version)
+  if (!branch) {
+    if (version) {
+      const available = sortBranches(branches, type).join(', ') || 'none'
+      throw new Error(`No ${type}-* branch matches ${version}.\nAvailable: ${available}`)
+    }
+    throw new Error(`No ${type}-* branches found.`)
+  }
+
+  // Export the branch without history
+  process.stdout.write(`Exporting ${branch} into ${folder}... `)
+  const tarball = join(tmpdir(), `sandstone-work-${name}.tar`)
+  const archive = await exec(
+    ['git', '-C', templateDir, 'archive', '--format=tar', `--prefix=${folder}/`, '-o', tarball, `origin/${branch}`],
+    { quiet: true, nothrow: true }
+  )
+  const extract = ['tar', '-xf', tarball, '-C', rootDir]
+  const result = archive.exitCode === 0 ? await exec(extract, { quiet: true, nothrow: true }) : archive
+  await removeFile(tarball)
+  if (result.exitCode !== 0) {
+    console.log('failed\n')
+    throw new Error(result.stderr.toString().trim())
+  }
+  console.log('done')
+
+  // Register the project so the other scripts (link first) see it, then install and link
+  const projects = await loadProjects()
+  projects[name] = { folder, template: branch, createdAt: new Date().toISOString() }
+  await saveProjects(projects)
+
+  try {
+    if (await fileExists(join(projectDir, 'package.json'))) {
+      process.stdout.write('Installing dependencies... ')
+      await exec(['bun', 'install'], { cwd: projectDir, quiet: true })
+      await exec(['bun', 'pm', 'trust', '--all'], { cwd: projectDir, quiet: true, nothrow: true })
+      console.log('done\n')
+
+      const ignoreCompat = args.flag('ignore-compat') ? ['--ignore-compat'] : []
+      await runSubcommand(linkCommand, ['--into', name, ...ignoreCompat])
+    }
+  } catch (err) {
+    // Leave nothing half created behind: the name can be used again right away
+    console.log(`\nCreating ${name} failed, removing ${folder}`)
+    const registered = await loadProjects()
+    delete registered[name]
+    await saveProjects(registered)
+    await removeFile(projectDir)
+    throw err
+  }
+
+  console.log(`\nCreated ${folder} from ${branch}`)
+  console.log('')
+  console.log('You can now:')
+  console.log(`  cd ${folder} && bun run build`)
+
+  return { name, folder, template: branch }
+}
+
+export const createCommand: CommandSpec = {
+  name: 'create',
+  summary: 'Create a test project from a template branch, installed and linked to the local packages',
+  usage: '<name>',
+  description: 'The project goes into projects/<name>, exported without git history.',
+  options: [
+    { name: 'library', type: 'flag', description: 'Use library template instead of pack template' },
+    {
+      name: 'version',
+      type: 'string',
+      value: '<range>',
+      description: 'Use the latest template matching a version or range (1.2, ^1.2, ~1.2.3, >=1.0 <2, ^1 || ^2)',
+    },
+    {
+      name: 'ignore-compat',
+      type: 'flag',
+      description: "Link the local packages even if they're outside of the template's ranges",
+    },
+  ],
+  dryRun: true,
+  examples: ['create my-pack', 'create my-lib --library --version ^1.0'],
+  run: create,
+}
+
+if (import.meta.main) {
+  await runCommand(createCommand, process.argv.slice(2))
+}
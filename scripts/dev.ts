@@ -0,0 +1,294 @@
+/**
+ * Watch mode for the linked packages: rebuilds a package when its sources change, then everything
+ * linked to it downstream, up to the template/playground/test project builds.
+ *
+ * Usage:
+ *   sandstone-work dev                    - Watch the packages linked by `sandstone-work link`
+ *   sandstone-work dev --debounce <ms>    - Wait for changes to settle for this long (default: 300)
+ *   sandstone-work dev --verbose          - Print the output of successful builds too
+ *
+ * Only packages linked into another repo are watched, the others are consumed from npm anyway.
+ * Changes are checked against the build fingerprints (see lib/build-cache.ts), so touching a file
+ * without changing it, or writing build output, doesn't trigger a rebuild. A package whose build
+ * fails blocks its dependents until the next cycle.
+ */
+
+import { type FSWatcher, watch } from 'fs'
+import { join, relative } from 'path'
+import { checkBuild, fingerprintPackage, saveFingerprint } from './lib/build-cache.ts'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { loadManifest } from './lib/manifest.ts'
+import { isLinked, isPacked } from './lib/package-json.ts'
+import { globalOptions } from './lib/run.ts'
+import { createTaskLog, excerpt } from './lib/tasks.ts'
+import { type LocalPackage, type Workspace, scanWorkspace } from './lib/workspace.ts'
+
+const DEFAULT_DEBOUNCE = 300
+
+/** Path segments whose changes never matter */
+const IGNORED_SEGMENTS = ['node_modules', '.git']
+
+interface Options {
+  debounce: number
+  verbose: boolean
+}
+
+/** Something that can be rebuilt: a local package, or a consumer (template, test project...) */
+interface Target {
+  name: string
+  dir: string
+  build: string
+  /** Set for local packages, whose builds are fingerprinted */
+  pkg?: LocalPackage
+  /** Targets this one links */
+  upstream: Target[]
+}
+
+interface Step {
+  target: Target
+  result: 'built' | 'failed' | 'blocked'
+  reason: string
+  /** Milliseconds */
+  duration: number
+}
+
+/** Build targets of the packages and their consumers, connected by the linked dependencies. */
+function getTargets(workspace: Workspace): Target[] {
+  const targets: Target[] = workspace.packages
+    .filter((p) => p.build)
+    .map((pkg) => ({ name: pkg.name, dir: pkg.dir, build: pkg.build!, pkg, upstream: [] }))
+
+  for (const consumer of workspace.consumers) {
+    let target = targets.find((t) => t.dir === consumer.dir)
+    if (!target) {
+      if (!consumer.json.scripts?.build) {
+        continue
+      }
+      const name = consumer.path === '.' ? consumer.repo.shortName : join(consumer.repo.shortName, consumer.path)
+      target = { name, dir: consumer.dir, build: 'bun run build', upstream: [] }
+      targets.push(target)
+    }
+
+    for (const { pkg, specifier } of consumer.dependencies) {
+      const upstream = targets.find((t) => t.pkg === pkg)
+      // Tarballs installed by `link --pack` don't see rebuilds
+      if (upstream && isLinked(specifier) && !isPacked(specifier) && !target.upstream.includes(upstream)) {
+        target.upstream.push(upstream)
+      }
+    }
+  }
+
+  return targets
+}
+
+/** `changed` and everything downstream of them, dependencies first. */
+function getBuildOrder(targets: Target[], changed: Target[]): Target[] {
+  const affected = new Set(changed)
+  for (let grew = true; grew; ) {
+    grew = false
+    for (const target of targets) {
+      if (!affected.has(target) && target.upstream.some((u) => affected.has(u))) {
+        affected.add(target)
+        grew = true
+      }
+    }
+  }
+
+  const order: Target[] = []
+  let remaining = targets.filter((t) => affected.has(t))
+  while (remaining.length > 0) {
+    const ready = remaining.filter((t) => t.upstream.every((u) => !affected.has(u) || order.includes(u)))
+    // Dependency cycle: build the rest in manifest order
+    order.push(...(ready.length > 0 ? ready : remaining))
+    remaining = remaining.filter((t) => !order.includes(t))
+  }
+  return order
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function formatTime(date: Date): string {
+  return date.toTimeString().slice(0, 8)
+}
+
+/** Rebuilds the stale targets among `changed` and their dependents, printing a timeline. */
+async function runCycle(targets: Target[], changed: Target[], trigger: string, options: Options) {
+  const start = performance.now()
+  const steps: Step[] = []
+  const outcome = new Map<Target, Step['result']>()
+
+  for (const target of getBuildOrder(targets, changed)) {
+    const rebuiltUpstream = target.upstream.find((u) => outcome.get(u) === 'built')
+    const brokenUpstream = target.upstream.find((u) => outcome.get(u) === 'failed' || outcome.get(u) === 'blocked')
+
+    let reason: string
+    if (brokenUpstream) {
+      console.log(`  ${target.name}: not built (${brokenUpstream.name} failed)`)
+      outcome.set(target, 'blocked')
+      steps.push({ target, result: 'blocked', reason: `${brokenUpstream.name} failed`, duration: 0 })
+      continue
+    } else if (rebuiltUpstream) {
+      reason = `${rebuiltUpstream.name} rebuilt`
+    } else if (target.pkg && changed.includes(target)) {
+      const status = await checkBuild(target.pkg)
+      if (status.fresh) {
+        continue
+      }
+      reason = status.reason
+    } else {
+      continue
+    }
+
+    if (steps.length === 0) {
+      console.log(`[${formatTime(new Date())}] ${trigger}`)
+    }
+    process.stdout.write(`  ${target.name}: building (${reason})... `)
+
+    const out = createTaskLog()
+    const buildStart = performance.now()
+    const result = await out.exec(target.build, target.dir)
+    const duration = Math.round(performance.now() - buildStart)
+
+    if (result.exitCode === 0) {
+      if (target.pkg) {
+        await saveFingerprint(target.pkg, await fingerprintPackage(target.pkg))
+      }
+      console.log(`done in ${formatDuration(duration)}`)
+      outcome.set(target, 'built')
+      steps.push({ target, result: 'built', reason, duration })
+    } else {
+      console.log(`failed after ${formatDuration(duration)}: ${excerpt(result)}`)
+      outcome.set(target, 'failed')
+      steps.push({ target, result: 'failed', reason, duration })
+    }
+    if (result.exitCode !== 0 || options.verbose) {
+      for (const line of out.lines) {
+        console.log(`  ${line}`)
+      }
+    }
+  }
+
+  if (steps.length === 0) {
+    return
+  }
+
+  const built = steps.filter((s) => s.result === 'built').length
+  const problems = steps.filter((s) => s.result !== 'built').map((s) => `${s.target.name} ${s.result}`)
+  const total = formatDuration(Math.round(performance.now() - start))
+  console.log(`  => ${built}/${steps.length} rebuilt in ${total}${problems.length > 0 ? ` (${problems.join(', ')})` : ''}\n`)
+}
+
+async function dev(args: ParsedArgs) {
+  const options: Options = { debounce: args.int('debounce') ?? DEFAULT_DEBOUNCE, verbose: globalOptions.verbose }
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const targets = getTargets(workspace)
+
+  // Watch the packages something links
+  const watched = targets.filter((t) => t.pkg && targets.some((d) => d.upstream.includes(t)))
+  if (watched.length === 0) {
+    throw new Error('No linked packages to watch. Run `sandstone-work link` first.')
+  }
+
+  const pending = new Map<Target, Set<string>>()
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let running = false
+
+  async function cycle(changed: Target[], trigger: string) {
+    running = true
+    try {
+      await runCycle(targets, changed, trigger, options)
+    } catch (err) {
+      // Keep watching: the next change gets another cycle
+      console.error('\nCycle failed:', globalOptions.verbose ? err : ((err as Error).message ?? err))
+    } finally {
+      running = false
+    }
+    // Changes made while building get their own cycle
+    if (pending.size > 0) {
+      schedule()
+    }
+  }
+
+  async function flush() {
+    timer = null
+    if (running || pending.size === 0) {
+      return
+    }
+
+    const changed = [...pending.keys()]
+    const files = [...pending.values()].flatMap((paths) => [...paths])
+    pending.clear()
+    const shown = files.slice(0, 3).join(', ')
+    const more = files.length > 3 ? `, +${files.length - 3} more` : ''
+    await cycle(changed, `${changed.map((t) => t.name).join(', ')} changed (${shown}${more})`)
+  }
+
+  function schedule() {
+    if (timer) {
+      clearTimeout(timer)
+    }
+    timer = setTimeout(flush, options.debounce)
+  }
+
+  const watchers: FSWatcher[] = []
+  for (const target of watched) {
+    const output = target.pkg!.output ? relative(target.dir, target.pkg!.output) : undefined
+    watchers.push(
+      watch(target.dir, { recursive: true }, (_event, filename) => {
+        if (!filename) {
+          return
+        }
+        const path = filename.toString()
+        if (
+          path.split(/[\\/]/).some((s) => IGNORED_SEGMENTS.includes(s)) ||
+          (output && (path === output || path.startsWith(`${output}/`)))
+        ) {
+          return
+        }
+        if (!pending.has(target)) {
+          pending.set(target, new Set())
+        }
+        pending.get(target)!.add(path)
+        schedule()
+      })
+    )
+  }
+
+  process.on('SIGINT', () => {
+    for (const watcher of watchers) {
+      watcher.close()
+    }
+    console.log('\nStopped watching.')
+    process.exit(0)
+  })
+
+  console.log(`Watching ${watched.map((t) => t.name).join(', ')} (Ctrl+C to stop)\n`)
+
+  // Catch up on changes made while not watching
+  await cycle(watched, 'initial check')
+
+  // Keep watching until Ctrl+C
+  await new Promise(() => {})
+}
+
+export const devCommand: CommandSpec = {
+  name: 'dev',
+  summary: 'Watch the linked packages, rebuilding them and their dependents when their sources change',
+  description: 'With --verbose, the output of successful builds is printed too.',
+  options: [
+    {
+      name: 'debounce',
+      type: 'int',
+      value: '<ms>',
+      description: `Wait for changes to settle for this long (default: ${DEFAULT_DEBOUNCE})`,
+    },
+  ],
+  run: dev,
+}
+
+if (import.meta.main) {
+  await runCommand(devCommand, process.argv.slice(2))
+}
@@ -0,0 +1,361 @@
+/**
+ * Diagnoses a broken workspace, and repairs what can be repaired automatically.
+ *
+ * Usage:
+ *   sandstone-work doctor          - Check the workspace and explain the problems found
+ *   sandstone-work doctor --fix    - Also fix the problems that can be fixed automatically
+ *
+ * Checks:
+ *   - git and bun are installed
+ *   - global `bun link` registrations point at existing directories, and at the workspace's copy
+ *     of the local packages
+ *   - node_modules symlinks of the repos and consumers point at existing directories
+ *   - every repo on disk is in manifest.json (and every test project in .work/projects.json)
+ *   - the consumers manifest.json declares list the package in their declared field
+ *   - .gitignore and sandstone.code-workspace are in sync with the manifest
+ *   - repos with a bun.lock have their dependencies installed
+ */
+
+import { readdir, stat } from 'fs/promises'
+import { basename, join, relative } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { getManagedRepos, loadContributeManifest } from './lib/contribute.ts'
+import { fileExists, removeFile } from './lib/fs.ts'
+import { getGlobalModulesDir, getLinkTarget } from './lib/global-links.ts'
+import { type Manifest, loadManifest, loadProjects, rootDir } from './lib/manifest.ts'
+import { isLinked, isPacked } from './lib/package-json.ts'
+import { exec } from './lib/run.ts'
+import { excerpt } from './lib/tasks.ts'
+import { type Workspace, scanWorkspace } from './lib/workspace.ts'
+import { syncGitignore, syncWorkspaceFile } from './lib/workspace-files.ts'
+
+/** Folders of the work root that aren't repos */
+const ROOT_FOLDERS = ['.git', '.work', '.vscode', 'node_modules', 'projects', 'scripts']
+
+interface Fix {
+  /** Fixes with the same key are only run once, e.g. installing the same repo */
+  key: string
+  description: string
+  run(): Promise<void>
+}
+
+interface Problem {
+  message: string
+  /** Automatic fix, or how to fix it by hand */
+  fix: Fix | string
+}
+
+interface Check {
+  title: string
+  run(manifest: Manifest, workspace: Workspace): Promise<Problem[]>
+}
+
+/** Package entries of a node_modules directory (`name` or `@scope/name`), without `.bin` and co. */
+async function listModules(modulesDir: string): Promise<string[]> {
+  if (!(await fileExists(modulesDir))) {
+    return []
+  }
+  const names: string[] = []
+  for (const entry of await readdir(modulesDir)) {
+    if (entry.startsWith('.')) {
+      continue
+    }
+    if (entry.startsWith('@')) {
+      for (const scoped of await readdir(join(modulesDir, entry)).catch(() => [])) {
+        names.push(`${entry}/${scoped}`)
+      }
+    } else {
+      names.push(entry)
+    }
+  }
+  return names
+}
+
+function installFix(dir: string): Fix {
+  return {
+    key: `install:${dir}`,
+    description: `run bun install in ${relative(rootDir, dir) || '.'}`,
+    async run() {
+      const install = await exec(['bun', 'install'], { cwd: dir, quiet: true, nothrow: true })
+      if (install.exitCode !== 0) {
+        throw new Error(excerpt(install))
+      }
+      await exec(['bun', 'pm', 'trust', '--all'], { cwd: dir, quiet: true, nothrow: true })
+    },
+  }
+}
+
+function registerFix(name: string, dir: string): Fix {
+  return {
+    key: `register:${name}`,
+    description: `run bun link in ${relative(rootDir, dir)}`,
+    async run() {
+      const link = await exec(['bun', 'link'], { cwd: dir, quiet: true, nothrow: true })
+      if (link.exitCode !== 0) {
+        throw new Error(excerpt(link))
+      }
+    },
+  }
+}
+
+const checks: Check[] = [
+  {
+    title: 'tools',
+    async run() {
+      const problems: Problem[] = []
+      if (!Bun.which('git')) {
+        problems.push({ message: 'git is not installed or not in PATH', fix: 'install git from https://git-scm.com' })
+      }
+      if (!Bun.which('bun')) {
+        problems.push({
+          message: 'bun is not in PATH, the scripts call it for installs, builds and links',
+          fix: 'install bun from https://bun.sh, or add it to PATH',
+        })
+      }
+      return problems
+    },
+  },
+  {
+    title: 'global bun links',
+    async run(_manifest, workspace) {
+      const problems: Problem[] = []
+      const modulesDir = getGlobalModulesDir()
+      const registered = new Set<string>()
+
+      for (const name of await listModules(modulesDir)) {
+        const path = join(modulesDir, name)
+        const target = await getLinkTarget(path)
+        if (!target) {
+          continue
+        }
+        registered.add(name)
+        const pkg = workspace.packages.find((p) => p.name === name)
+
+        if (!(await fileExists(target))) {
+          problems.push({
+            message: `${name} is registered from ${target}, which no longer exists`,
+            fix: pkg
+              ? registerFix(name, pkg.dir)
+              : { key: `unregister:${name}`, description: `remove ${path}`, run: () => removeFile(path) },
+          })
+        } else if (pkg && target !== pkg.dir) {
+          problems.push({
+            message: `${name} is registered from ${target} instead of ${relative(rootDir, pkg.dir)}, links use the wrong copy`,
+            fix: registerFix(name, pkg.dir),
+          })
+        }
+      }
+
+      // Linked consumers need the package registered, or their next install fails
+      for (const consumer of workspace.consumers) {
+        for (const { pkg, specifier } of consumer.dependencies) {
+          if (isLinked(specifier) && !isPacked(specifier) && !registered.has(pkg.name)) {
+            registered.add(pkg.name)
+            problems.push({
+              message: `${pkg.name} is linked into ${consumer.repo.shortName} but not registered with bun link`,
+              fix: registerFix(pkg.name, pkg.dir),
+            })
+          }
+        }
+      }
+
+      return problems
+    },
+  },
+  {
+    title: 'node_modules symlinks',
+    async run(manifest, workspace) {
+      const problems: Problem[] = []
+      const dirs = new Set([...manifest.repos.map((r) => r.dir), ...workspace.consumers.map((c) => c.dir)])
+
+      for (const dir of dirs) {
+        const broken: string[] = []
+        for (const name of await listModules(join(dir, 'node_modules'))) {
+          const target = await getLinkTarget(join(dir, 'node_modules', name))
+          if (target && !(await stat(target).catch(() => null))) {
+            broken.push(name)
+          }
+        }
+        if (broken.length > 0) {
+          const verb = broken.length === 1 ? 'points' : 'point'
+          problems.push({
+            message: `${relative(rootDir, dir)}/node_modules: ${broken.join(', ')} ${verb} at deleted directories`,
+            fix: installFix(dir),
+          })
+        }
+      }
+
+      return problems
+    },
+  },
+  {
+    title: 'repos on disk',
+    async run(manifest) {
+      const problems: Problem[] = []
+      const known = new Set(manifest.repos.map((r) => r.folderName))
+
+      for (const entry of await readdir(rootDir, { withFileTypes: true })) {
+        if (!entry.isDirectory() || ROOT_FOLDERS.includes(entry.name) || known.has(entry.name)) {
+          continue
+        }
+        if (await fileExists(join(rootDir, entry.name, '.git'))) {
+          problems.push({
+            message: `${entry.name} is a git repo but isn't in manifest.json, the scripts ignore it`,
+            fix: 'add it to manifest.json, or move it out of the work root',
+          })
+        }
+      }
+
+      const projects = await loadProjects()
+      const projectsDir = join(rootDir, 'projects')
+      for (const entry of (await fileExists(projectsDir)) ? await readdir(projectsDir, { withFileTypes: true }) : []) {
+        if (entry.isDirectory() && !Object.values(projects).some((p) => basename(p.folder) === entry.name)) {
+          problems.push({
+            message: `projects/${entry.name} isn't registered in .work/projects.json`,
+            fix: 'create test projects with `sandstone-work create`, or delete the folder',
+          })
+        }
+      }
+      for (const [name, project] of Object.entries(projects)) {
+        if (!(await fileExists(join(rootDir, project.folder)))) {
+          problems.push({
+            message: `test project ${name} is registered but ${project.folder} is missing`,
+            fix: `remove "${name}" from .work/projects.json`,
+          })
+        }
+      }
+
+      return problems
+    },
+  },
+  {
+    title: 'declared consumers',
+    async run(_manifest, workspace) {
+      return workspace.missing.map(({ pkg, consumer }) => {
+        const where = consumer.path === '.' ? consumer.repo : join(consumer.repo, consumer.path)
+        return {
+          message: `manifest.json declares that ${where} consumes ${pkg.name}, but it isn't in its ${consumer.field}`,
+          fix: `add it to the ${consumer.field} of ${where}, or fix the consumers of ${pkg.name} in manifest.json`,
+        }
+      })
+    },
+  },
+  {
+    title: '.gitignore and VS Code workspace',
+    async run(manifest) {
+      const repos = getManagedRepos(manifest, await loadContributeManifest())
+      const problems: Problem[] = []
+      for (const sync of [syncGitignore, syncWorkspaceFile]) {
+        const result = await sync(manifest, repos, false)
+        if (result.changed) {
+          const file = basename(result.path)
+          problems.push({
+            message: `${file} is out of sync with manifest.json and manifest.contribute.json`,
+            fix: {
+              key: `sync:${file}`,
+              description: `merge the managed entries into ${file}`,
+              async run() {
+                await sync(manifest, repos)
+              },
+            },
+          })
+        }
+      }
+      return problems
+    },
+  },
+  {
+    title: 'installed dependencies',
+    async run(manifest) {
+      const problems: Problem[] = []
+      for (const repo of manifest.repos) {
+        if ((await fileExists(join(repo.dir, 'bun.lock'))) && !(await fileExists(join(repo.dir, 'node_modules')))) {
+          problems.push({
+            message: `${repo.folderName} has a bun.lock but no node_modules`,
+            fix: installFix(repo.dir),
+          })
+        }
+      }
+      return problems
+    },
+  },
+]
+
+async function doctor(args: ParsedArgs) {
+  const fix = args.flag('fix')
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+
+  const problems: Problem[] = []
+  for (const check of checks) {
+    const found = await check.run(manifest, workspace)
+    console.log(`${check.title}: ${found.length === 0 ? 'ok' : `${found.length} problem${found.length === 1 ? '' : 's'}`}`)
+    for (const problem of found) {
+      console.log(`  - ${problem.message}`)
+      console.log(`    ${typeof problem.fix === 'string' ? `to fix: ${problem.fix}` : `fixable: ${problem.fix.description}`}`)
+    }
+    problems.push(...found)
+  }
+
+  const fixes = [...new Map(problems.flatMap((p) => (typeof p.fix === 'string' ? [] : [[p.fix.key, p.fix]]))).values()]
+  const manual = problems.filter((p) => typeof p.fix === 'string').length
+
+  const result = {
+    problems: problems.map((p) => ({
+      message: p.message,
+      fix: typeof p.fix === 'string' ? p.fix : p.fix.description,
+      fixable: typeof p.fix !== 'string',
+    })),
+    fixed: [] as string[],
+    failed: [] as string[],
+  }
+
+  if (problems.length === 0) {
+    console.log('\nNo problems found.')
+    return result
+  }
+
+  if (!fix) {
+    console.log(`\n${problems.length} problem${problems.length === 1 ? '' : 's'} found.`)
+    if (fixes.length > 0) {
+      console.log('Run `sandstone-work doctor --fix` to fix the ones marked fixable.')
+    }
+    process.exitCode = 1
+    return result
+  }
+
+  console.log('')
+  for (const { description, run } of fixes) {
+    process.stdout.write(`Fixing: ${description}... `)
+    try {
+      await run()
+      console.log('done')
+      result.fixed.push(description)
+    } catch (err) {
+      console.log(`failed: ${(err as Error).message}`)
+      result.failed.push(description)
+    }
+  }
+
+  const left = result.failed.length + manual
+  if (left > 0) {
+    console.log(`\n${left} problem${left === 1 ? '' : 's'} left to fix by hand.`)
+    process.exitCode = 1
+  } else {
+    console.log('\nAll problems fixed.')
+  }
+  return result
+}
+
+export const doctorCommand: CommandSpec = {
+  name: 'doctor',
+  summary: 'Diagnose workspace problems (links, node_modules, manifest, workspace files) and fix them',
+  options: [{ name: 'fix', type: 'flag', description: 'Fix the problems that can be fixed automatically' }],
+  dryRun: true,
+  examples: ['doctor', 'doctor --fix --dry-run'],
+  run: doctor,
+}
+
+if (import.meta.main) {
+  await runCommand(doctorCommand, process.argv.slice(2))
+}
@@ -0,0 +1,209 @@
+/**
+ * Runs a shell command or package script in every selected repo, in dependency order.
+ *
+ * Usage:
+ *   sandstone-work each run <script>            - Run a package.json script where it is defined
+ *   sandstone-work each exec -- <command...>    - Run a shell command in every cloned repo
+ *   sandstone-work each ... --only <repos>      - Only these repos (comma-separated short names)
+ *   sandstone-work each ... --skip <repos>      - Skip these repos (comma-separated short names)
+ *   sandstone-work each ... --parallel          - Run the repos of a dependency level at once
+ *   sandstone-work each ... --jobs <n>          - Repos run at once with --parallel (default: 4)
+ *   sandstone-work each ... --bail              - Stop after the first level with a failure
+ *
+ * Repos are grouped into levels from the dependencies between the local packages (sandstone, then
+ * sandstone-cli, then the template and test projects...). A level only starts once the previous
+ * one is done, so a build always sees the fresh output of what it depends on.
+ *
+ * Examples:
+ *   sandstone-work each run build --only sandstone,cli
+ *   sandstone-work each run test --parallel
+ *   sandstone-work each exec -- git fetch --all --prune
+ */
+
+import { join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { fileExists } from './lib/fs.ts'
+import { type RepoEntry, loadManifest, selectRepos } from './lib/manifest.ts'
+import { readPackageJson } from './lib/package-json.ts'
+import { exec } from './lib/run.ts'
+import { createTaskLog, mapConcurrent, printTable } from './lib/tasks.ts'
+import { getRepoLevels, scanWorkspace } from './lib/workspace.ts'
+
+const DEFAULT_JOBS = 4
+
+interface Options {
+  mode: 'run' | 'exec'
+  /** Script name for `run`, shell command for `exec` */
+  command: string
+  only?: string[]
+  skip?: string[]
+  parallel: boolean
+  jobs: number
+  bail: boolean
+}
+
+interface RepoResult {
+  repo: string
+  /** Level in the dependency order, starting at 1 */
+  level: number
+  status: 'ok' | 'failed' | 'skipped'
+  exitCode: number | null
+  /** Milliseconds, null when not run */
+  duration: number | null
+  detail: string
+}
+
+function getOptions(args: ParsedArgs): Options {
+  const [mode, ...words] = args.positionals
+  const options = {
+    only: args.list('only'),
+    skip: args.list('skip'),
+    parallel: args.flag('parallel'),
+    jobs: args.int('jobs') ?? DEFAULT_JOBS,
+    bail: args.flag('bail'),
+  }
+
+  if (mode === 'run' && words.length === 1 && args.rest.length === 0) {
+    return { mode, command: words[0], ...options }
+  }
+  if (mode === 'exec' && words.length + args.rest.length > 0) {
+    return { mode, command: [...words, ...args.rest].join(' '), ...options }
+  }
+  throw new Error('Expected `run <script>` or `exec -- <command...>` (see --help)')
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return '-'
+  }
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/** Returns why the repo is skipped, or null if the command should run in it. */
+async function getSkipReason(repo: RepoEntry, options: Options): Promise<string | null> {
+  if (!(await fileExists(repo.dir))) {
+    return repo.project ? 'project folder missing' : 'not cloned'
+  }
+  if (options.mode === 'exec') {
+    return null
+  }
+  if (!(await fileExists(join(repo.dir, 'package.json')))) {
+    return 'no package.json'
+  }
+  const pkg = await readPackageJson(repo.dir)
+  return pkg.scripts?.[options.command] ? null : `no "${options.command}" script`
+}
+
+async function runInRepo(repo: RepoEntry, level: number, options: Options): Promise<RepoResult> {
+  const result: RepoResult = { repo: repo.shortName, level, status: 'skipped', exitCode: null, duration: null, detail: '' }
+
+  const skipReason = await getSkipReason(repo, options)
+  if (skipReason) {
+    result.detail = skipReason
+    return result
+  }
+
+  const command = options.mode === 'run' ? ['bun', 'run', options.command] : options.command
+  const start = performance.now()
+
+  if (options.parallel) {
+    // Buffer the output so repos running at once don't interleave
+    const out = createTaskLog()
+    const output = await out.exec(command, repo.dir)
+    result.exitCode = output.exitCode
+    console.log(`[${repo.shortName}]`)
+    for (const line of out.lines) {
+      console.log(line)
+    }
+    console.log('')
+  } else {
+    console.log(`[${repo.shortName}]`)
+    result.exitCode = (await exec(command, { cwd: repo.dir, nothrow: true })).exitCode
+    console.log('')
+  }
+
+  result.duration = Math.round(performance.now() - start)
+  result.status = result.exitCode === 0 ? 'ok' : 'failed'
+  return result
+}
+
+async function each(args: ParsedArgs) {
+  const options = getOptions(args)
+
+  const manifest = await loadManifest()
+  const repos = selectRepos(manifest, options.only, options.skip)
+  const levels = getRepoLevels(await scanWorkspace(manifest), repos)
+
+  const what = options.mode === 'run' ? `script "${options.command}"` : `\`${options.command}\``
+  console.log(`Running ${what} in ${repos.length} repos, ${levels.length} dependency levels\n`)
+
+  const results: RepoResult[] = []
+  let bailed = false
+
+  for (const [index, level] of levels.entries()) {
+    if (bailed) {
+      for (const repo of level) {
+        results.push({
+          repo: repo.shortName,
+          level: index + 1,
+          status: 'skipped',
+          exitCode: null,
+          duration: null,
+          detail: 'not run (--bail)',
+        })
+      }
+      continue
+    }
+
+    const jobs = options.parallel ? options.jobs : 1
+    const levelResults = await mapConcurrent(level, jobs, (repo) => runInRepo(repo, index + 1, options))
+    results.push(...levelResults)
+    bailed = options.bail && levelResults.some((r) => r.status === 'failed')
+  }
+
+  printTable(
+    ['level', 'repo', 'result', 'exit', 'time', 'details'],
+    results.map((r) => [
+      String(r.level),
+      r.repo,
+      r.status,
+      r.exitCode === null ? '-' : String(r.exitCode),
+      formatDuration(r.duration),
+      r.detail,
+    ])
+  )
+
+  const failed = results.filter((r) => r.status === 'failed').length
+  if (failed > 0) {
+    console.log(`\n${failed} repo${failed === 1 ? '' : 's'} failed.`)
+    process.exitCode = 1
+  }
+  return results
+}
+
+export const eachCommand: CommandSpec = {
+  name: 'each',
+  summary: 'Run a package script or shell command in every repo, in dependency order',
+  usage: '<run <script>|exec -- <command...>>',
+  options: [
+    { name: 'only', type: 'repos', description: 'Only include these repos' },
+    { name: 'skip', type: 'repos', description: 'Skip these repos' },
+    { name: 'parallel', type: 'flag', description: 'Run the repos of a dependency level at once' },
+    {
+      name: 'jobs',
+      type: 'int',
+      value: '<n>',
+      min: 1,
+      description: `Number of repos run at once with --parallel (default: ${DEFAULT_JOBS})`,
+    },
+    { name: 'bail', type: 'flag', description: 'Stop after the first dependency level with a failure' },
+  ],
+  dryRun: true,
+  rest: true,
+  examples: ['each run build --only sandstone,cli', 'each run test --parallel', 'each exec -- git fetch --all --prune'],
+  run: each,
+}
+
+if (import.meta.main) {
+  await runCommand(eachCommand, process.argv.slice(2))
+}
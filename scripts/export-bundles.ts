@@ -0,0 +1,108 @@
+/**
+ * Exports the workspace as git bundles, to set it up on a machine without network access.
+ *
+ * Usage:
+ *   sandstone-work export-bundles <dir>                 - Bundle the work root and every cloned repo into <dir>
+ *   sandstone-work export-bundles <dir> --only <repos>  - Only bundle these repos (comma-separated short names)
+ *   sandstone-work export-bundles <dir> --skip <repos>  - Skip these repos
+ *
+ * Each repo is bundled with all its refs as `<dir>/<folder>.bundle`, the work root included (as
+ * `sandstone-work.bundle` when checked out as sandstone-work). On the other machine:
+ *   git clone <dir>/sandstone-work.bundle sandstone-work
+ *   cd sandstone-work && sandstone-work setup --from-bundles <dir>
+ *
+ * Clones made from a bundle get the branches and tags it had locally. Test projects aren't git repos
+ * and are left out.
+ */
+
+import { basename, join, relative, resolve } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { fileExists, makeDir } from './lib/fs.ts'
+import { getBundlePath, getHeadCommit } from './lib/git.ts'
+import { loadManifest, rootDir, selectRepos } from './lib/manifest.ts'
+import { exec } from './lib/run.ts'
+import { excerpt, printTable } from './lib/tasks.ts'
+
+interface BundleOutcome {
+  repo: string
+  bundle: string
+  status: 'exported' | 'skipped' | 'failed'
+  /** Size in bytes, skip reason or error excerpt */
+  detail: string
+}
+
+async function exportBundle(name: string, repoDir: string, bundle: string): Promise<BundleOutcome> {
+  const outcome: BundleOutcome = { repo: name, bundle, status: 'skipped', detail: '' }
+  if (!(await fileExists(join(repoDir, '.git')))) {
+    outcome.detail = 'not cloned'
+    return outcome
+  }
+  if (!(await getHeadCommit(repoDir))) {
+    outcome.detail = 'no commits'
+    return outcome
+  }
+
+  process.stdout.write(`Bundling ${name}... `)
+  const result = await exec(['git', 'bundle', 'create', bundle, '--all'], { cwd: repoDir, quiet: true, nothrow: true })
+  if (result.exitCode !== 0) {
+    console.log('failed')
+    return { ...outcome, status: 'failed', detail: excerpt(result) }
+  }
+  console.log('done')
+  const file = Bun.file(bundle)
+  return { ...outcome, status: 'exported', detail: (await file.exists()) ? `${file.size} bytes` : '' }
+}
+
+async function exportBundles(args: ParsedArgs) {
+  const [target] = args.positionals
+  if (!target) {
+    throw new Error('Missing the bundle directory (see --help)')
+  }
+  const dir = resolve(target)
+  const only = args.list('only')
+
+  const manifest = await loadManifest()
+  const repos = selectRepos(manifest, only, args.list('skip')).filter((r) => !r.project)
+  await makeDir(dir)
+
+  const outcomes: BundleOutcome[] = []
+  // The work root first, it is what the other machine clones by hand
+  if (!only) {
+    outcomes.push(await exportBundle('(root)', rootDir, getBundlePath(dir, basename(rootDir))))
+  }
+  for (const repo of repos) {
+    outcomes.push(await exportBundle(repo.shortName, repo.dir, getBundlePath(dir, repo.folderName)))
+  }
+
+  console.log('')
+  printTable(
+    ['repo', 'bundle', 'status', 'details'],
+    outcomes.map((o) => [o.repo, relative(process.cwd(), o.bundle), o.status, o.detail])
+  )
+
+  if (outcomes.some((o) => o.status === 'failed')) {
+    process.exitCode = 1
+  } else {
+    console.log(`\nOn the other machine: \`sandstone-work setup --from-bundles ${target}\` from the cloned root.`)
+  }
+
+  return { dir, bundles: outcomes }
+}
+
+export const exportBundlesCommand: CommandSpec = {
+  name: 'export-bundles',
+  summary: 'Export the work root and the repos as git bundles, for `setup --from-bundles`',
+  usage: '<dir>',
+  description: 'Lets the workspace be set up without network access. Test projects are left out.',
+  options: [
+    { name: 'only', type: 'repos', description: 'Only bundle these repos (and not the work root)' },
+    { name: 'skip', type: 'repos', description: 'Skip these repos' },
+  ],
+  dryRun: true,
+  examples: ['export-bundles ../bundles', 'export-bundles /media/usb/bundles --skip documentation'],
+  run: exportBundles,
+}
+
+if (import.meta.main) {
+  await runCommand(exportBundlesCommand, process.argv.slice(2))
+}
@@ -0,0 +1,269 @@
+/**
+ * Git hooks guarding against committing/pushing package.json or bun.lock files that still point
+ * to locally linked packages (`link:`/`file:` specifiers written by `link`).
+ *
+ * Usage:
+ *   sandstone-work hooks install     - Install pre-commit and pre-push hooks into every consumer repo
+ *   sandstone-work hooks uninstall   - Remove them, leaving any other hook content untouched
+ *   bun scripts/hooks.ts check <pre-commit|pre-push>  - Run by the hooks themselves
+ *
+ * The hooks are added as a marked block at the top of existing hook scripts (or in new ones), so
+ * user-provided hooks keep working. To commit linked files on purpose, set SANDSTONE_ALLOW_LINKED=1
+ * (or use git's --no-verify).
+ */
+
+import { $ } from 'bun'
+import { chmod, stat } from 'fs/promises'
+import { basename, isAbsolute, join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { removeFile, writeFile } from './lib/fs.ts'
+import { type RepoEntry, loadManifest } from './lib/manifest.ts'
+import { dependencyFields, isLinked } from './lib/package-json.ts'
+import { globalOptions } from './lib/run.ts'
+import { scanWorkspace } from './lib/workspace.ts'
+
+type Hook = 'pre-commit' | 'pre-push'
+
+const HOOKS: Hook[] = ['pre-commit', 'pre-push']
+const BLOCK_START = '# >>> sandstone-work linked package guard >>>'
+const BLOCK_END = '# <<< sandstone-work linked package guard <<<'
+const ESCAPE_HATCH = 'SANDSTONE_ALLOW_LINKED'
+const ZERO_SHA = /^0+$/
+
+const scriptPath = join(import.meta.dir, 'hooks.ts')
+
+function hookBlock(hook: Hook): string {
+  const check = `bun "${scriptPath}" check ${hook}`
+  const body =
+    hook === 'pre-push'
+      ? [
+          // git passes the pushed refs on stdin: keep a copy for the rest of the hook
+          'sandstone_refs=$(mktemp)',
+          'cat > "$sandstone_refs"',
+          `if command -v bun >/dev/null 2>&1; then`,
+          `  ${check} "$@" < "$sandstone_refs" || { rm -f "$sandstone_refs"; exit 1; }`,
+          'fi',
+          'exec < "$sandstone_refs"',
+          'rm -f "$sandstone_refs"',
+        ]
+      : [`if command -v bun >/dev/null 2>&1; then`, `  ${check} || exit 1`, 'fi']
+
+  return [BLOCK_START, ...body, BLOCK_END].join('\n')
+}
+
+function removeBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START)
+  const end = content.indexOf(BLOCK_END)
+  if (start === -1 || end === -1) {
+    return content
+  }
+  return content.slice(0, start) + content.slice(end + BLOCK_END.length).replace(/^\n/, '')
+}
+
+async function getHooksDir(repoDir: string): Promise<string> {
+  const result = await $`git -C ${repoDir} rev-parse --git-path hooks`.quiet()
+  const path = result.stdout.toString().trim()
+  return isAbsolute(path) ? path : join(repoDir, path)
+}
+
+async function getConsumerRepos(): Promise<RepoEntry[]> {
+  const workspace = await scanWorkspace(await loadManifest())
+  // Test projects aren't git repos
+  return [...new Set(workspace.consumers.map((c) => c.repo))].filter((r) => !r.project)
+}
+
+async function install() {
+  const installed: string[] = []
+  for (const repo of await getConsumerRepos()) {
+    const hooksDir = await getHooksDir(repo.dir)
+
+    const hooksDirStat = await stat(hooksDir).catch(() => null)
+    if (hooksDirStat && !hooksDirStat.isDirectory()) {
+      console.log(`${repo.folderName}: hooks path ${hooksDir} is not a directory (core.hooksPath), skipping`)
+      continue
+    }
+
+    for (const hook of HOOKS) {
+      const path = join(hooksDir, hook)
+      const file = Bun.file(path)
+      let content = (await file.exists()) ? removeBlock(await file.text()) : '#!/bin/sh\n'
+
+      const [shebang, ...rest] = content.split('\n')
+      if (!/^#!.*\b(sh|bash|zsh|dash)\b/.test(shebang)) {
+        console.log(`${repo.folderName}: existing ${hook} hook is not a shell script, skipping`)
+        console.log(`  add this to it instead: bun "${scriptPath}" check ${hook}`)
+        continue
+      }
+
+      content = [shebang, hookBlock(hook), ...rest].join('\n')
+      await writeFile(path, content)
+      if (!globalOptions.dryRun) {
+        await chmod(path, 0o755)
+      }
+    }
+
+    console.log(`Installed hooks in ${repo.folderName}`)
+    installed.push(repo.shortName)
+  }
+  return { installed }
+}
+
+async function uninstall() {
+  const uninstalled: string[] = []
+  for (const repo of await getConsumerRepos()) {
+    const hooksDir = await getHooksDir(repo.dir)
+    let removed = false
+
+    for (const hook of HOOKS) {
+      const path = join(hooksDir, hook)
+      const file = Bun.file(path)
+      if (!(await file.exists())) {
+        continue
+      }
+
+      const original = await file.text()
+      const content = removeBlock(original)
+      if (content === original) {
+        continue
+      }
+      removed = true
+
+      // Delete hooks we created, keep the ones that had other content
+      if (content.split('\n').slice(1).join('\n').trim() === '') {
+        await removeFile(path)
+      } else {
+        await writeFile(path, content)
+      }
+    }
+
+    if (removed) {
+      console.log(`Removed hooks from ${repo.folderName}`)
+      uninstalled.push(repo.shortName)
+    }
+  }
+  return { uninstalled }
+}
+
+/** Linked specifiers of local packages found in a package.json or bun.lock. */
+function findLinkedSpecifiers(path: string, content: string, localPackages: Set<string>): string[] {
+  const problems: string[] = []
+
+  if (basename(path) === 'package.json') {
+    let json: Record<string, Record<string, string> | undefined>
+    try {
+      json = JSON.parse(content)
+    } catch {
+      return problems
+    }
+    for (const field of dependencyFields) {
+      for (const [name, specifier] of Object.entries(json[field] ?? {})) {
+        if (localPackages.has(name) && isLinked(specifier)) {
+          problems.push(`${path}: ${field}.${name} is "${specifier}"`)
+        }
+      }
+    }
+  } else {
+    for (const name of localPackages) {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+      if (new RegExp(`"${escaped}(@|": ")(link|file):`).test(content)) {
+        problems.push(`${path}: ${name} is linked`)
+      }
+    }
+  }
+
+  return problems
+}
+
+function isGuardedFile(path: string): boolean {
+  return ['package.json', 'bun.lock'].includes(basename(path))
+}
+
+/** Files to check, with the revision to read them from (`:` is the index). */
+async function getFilesToCheck(hook: Hook): Promise<{ path: string; revision: string }[]> {
+  if (hook === 'pre-commit') {
+    const staged = await $`git diff --cached --name-only --diff-filter=ACMR`.quiet()
+    return staged.stdout
+      .toString()
+      .split('\n')
+      .filter((p) => p && isGuardedFile(p))
+      .map((path) => ({ path, revision: '' }))
+  }
+
+  const files: { path: string; revision: string }[] = []
+  for (const line of (await Bun.stdin.text()).split('\n')) {
+    const [, localSha, , remoteSha] = line.trim().split(/\s+/)
+    if (!localSha || ZERO_SHA.test(localSha)) {
+      // Deleting a remote branch
+      continue
+    }
+    const range = remoteSha && !ZERO_SHA.test(remoteSha) ? [`${remoteSha}..${localSha}`] : [localSha, '--not', '--remotes']
+    const changed = await $`git log --name-only --format= ${range}`.quiet().nothrow()
+    for (const path of new Set(changed.stdout.toString().split('\n'))) {
+      if (path && isGuardedFile(path)) {
+        files.push({ path, revision: localSha })
+      }
+    }
+  }
+  return files
+}
+
+async function check(hook: Hook) {
+  if (process.env[ESCAPE_HATCH] === '1') {
+    return
+  }
+
+  const workspace = await scanWorkspace(await loadManifest())
+  const localPackages = new Set(workspace.packages.map((p) => p.name))
+
+  const problems: string[] = []
+  for (const { path, revision } of await getFilesToCheck(hook)) {
+    const content = await $`git show ${`${revision}:${path}`}`.quiet().nothrow()
+    // Deleted at that revision
+    if (content.exitCode !== 0) {
+      continue
+    }
+    problems.push(...findLinkedSpecifiers(path, content.stdout.toString(), localPackages))
+  }
+
+  if (problems.length === 0) {
+    return
+  }
+
+  console.error(`Refusing to ${hook === 'pre-commit' ? 'commit' : 'push'}: local packages are still linked.\n`)
+  for (const problem of problems) {
+    console.error(`  ${problem}`)
+  }
+  console.error('\nRun `sandstone-work unlink` in the work root first.')
+  console.error(`To ${hook === 'pre-commit' ? 'commit' : 'push'} anyway, set ${ESCAPE_HATCH}=1.`)
+  process.exit(1)
+}
+
+async function hooks(args: ParsedArgs) {
+  const [command] = args.positionals
+  if (command === 'install') {
+    return await install()
+  } else if (command === 'uninstall') {
+    return await uninstall()
+  }
+  throw new Error('Expected `install` or `uninstall` (see --help)')
+}
+
+export const hooksCommand: CommandSpec = {
+  name: 'hooks',
+  summary: 'Install or remove git hooks rejecting commits/pushes of linked package.json and bun.lock files',
+  usage: '<install|uninstall>',
+  description: `Other hook content is left untouched. Set ${ESCAPE_HATCH}=1 to commit or push linked files anyway.`,
+  dryRun: true,
+  examples: ['hooks install', 'hooks uninstall'],
+  run: hooks,
+}
+
+if (import.meta.main) {
+  const [command, hook] = process.argv.slice(2)
+  // Run by the installed hooks, see hookBlock
+  if (command === 'check' && HOOKS.includes(hook as Hook)) {
+    await check(hook as Hook)
+  } else {
+    await runCommand(hooksCommand, process.argv.slice(2))
+  }
+}
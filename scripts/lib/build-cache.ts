@@ -0,0 +1,124 @@
+/**
+ * Content-hash based staleness detection for package builds.
+ *
+ * A package is fingerprinted from its source files (tracked and untracked files that git doesn't
+ * ignore, so tsconfig and lockfile included), plus the repo root tsconfig and lockfile for nested
+ * packages. The fingerprint of the last successful build is stored next to the build output, in
+ * `<output>/.build-hash.json`, or in `.work/builds/` when the output directory isn't known.
+ */
+
+import { $ } from 'bun'
+import { join, relative } from 'path'
+import { writeFile } from './fs.ts'
+import { stateDir } from './manifest.ts'
+import type { LocalPackage } from './workspace.ts'
+
+const HASH_FILE = '.build-hash.json'
+
+/** Repo root files that affect the build of nested packages */
+const REPO_FILES = ['tsconfig.json', 'bun.lock', 'bun.lockb']
+
+export interface Fingerprint {
+  hash: string
+  /** Path relative to the package -> content hash */
+  files: Record<string, string>
+}
+
+export interface BuildStatus {
+  fresh: boolean
+  reason: string
+  fingerprint: Fingerprint
+}
+
+function hashFilePath(pkg: LocalPackage): string {
+  if (pkg.output) {
+    return join(pkg.output, HASH_FILE)
+  }
+  return join(stateDir, 'builds', `${pkg.name.replace(/[@/]/g, '_')}.json`)
+}
+
+async function listSourceFiles(pkg: LocalPackage): Promise<string[]> {
+  const result = await $`git -C ${pkg.dir} ls-files -co --exclude-standard -z`.quiet().nothrow()
+  let files: string[]
+
+  if (result.exitCode === 0) {
+    files = result.stdout.toString().split('\0').filter(Boolean)
+  } else {
+    // Not a git checkout: everything but dependencies
+    files = []
+    for await (const file of new Bun.Glob('**/*').scan({ cwd: pkg.dir, onlyFiles: true, dot: true })) {
+      if (!file.split(/[\\/]/).includes('node_modules')) {
+        files.push(file)
+      }
+    }
+  }
+
+  const outputPath = pkg.output ? relative(pkg.dir, pkg.output) : undefined
+  files = files.filter((f) => !outputPath || (f !== outputPath && !f.startsWith(`${outputPath}/`)))
+
+  if (pkg.dir !== pkg.repo.dir) {
+    files.push(...REPO_FILES.map((f) => relative(pkg.dir, join(pkg.repo.dir, f))))
+  }
+
+  return [...new Set(files)].sort()
+}
+
+export async function fingerprintPackage(pkg: LocalPackage): Promise<Fingerprint> {
+  const files: Record<string, string> = {}
+  const hasher = new Bun.CryptoHasher('sha256')
+
+  for (const path of await listSourceFiles(pkg)) {
+    const file = Bun.file(join(pkg.dir, path))
+    // Deleted tracked files are still listed by git
+    if (!(await file.exists())) {
+      continue
+    }
+    const hash = new Bun.CryptoHasher('sha256').update(await file.arrayBuffer()).digest('hex')
+    files[path] = hash
+    hasher.update(`${path}\0${hash}\n`)
+  }
+
+  return { hash: hasher.digest('hex'), files }
+}
+
+function describeChanges(previous: Fingerprint, current: Fingerprint): string {
+  const changed = new Set<string>()
+  for (const [path, hash] of Object.entries(current.files)) {
+    if (previous.files[path] !== hash) {
+      changed.add(path)
+    }
+  }
+  for (const path of Object.keys(previous.files)) {
+    if (!(path in current.files)) {
+      changed.add(path)
+    }
+  }
+
+  const paths = [...changed]
+  const shown = paths.slice(0, 3).join(', ')
+  const more = paths.length > 3 ? `, +${paths.length - 3} more` : ''
+  return `${paths.length} file${paths.length === 1 ? '' : 's'} changed (${shown}${more})`
+}
+
+export async function checkBuild(pkg: LocalPackage): Promise<BuildStatus> {
+  const fingerprint = await fingerprintPackage(pkg)
+  const hashFile = Bun.file(hashFilePath(pkg))
+
+  if (!(await hashFile.exists())) {
+    return {
+      fresh: false,
+      reason: pkg.output ? 'never built or output missing' : 'no recorded build',
+      fingerprint,
+    }
+  }
+
+  const previous: Fingerprint = await hashFile.json()
+  if (previous.hash === fingerprint.hash) {
+    return { fresh: true, reason: 'sources unchanged since last build', fingerprint }
+  }
+  return { fresh: false, reason: describeChanges(previous, fingerprint), fingerprint }
+}
+
+export async function saveFingerprint(pkg: LocalPackage, fingerprint: Fingerprint): Promise<void> {
+  await writeFile(hashFilePath(pkg), JSON.stringify(fingerprint) + '\n')
+}
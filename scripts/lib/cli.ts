@@ -0,0 +1,243 @@
+/**
+ * Argument parsing, help and error handling shared by every command of the `sandstone-work` CLI.
+ *
+ * Each script exports its command(s) as a `CommandSpec`, run either through `scripts/cli.ts` or on
+ * their own (`bun scripts/setup.ts ...`), with the same options and help either way.
+ */
+
+import { loadManifest } from './manifest.ts'
+import { globalOptions } from './run.ts'
+
+export const CLI_NAME = 'sandstone-work'
+
+export interface OptionSpec {
+  /** Long name, without the leading dashes */
+  name: string
+  short?: string
+  /**
+   * - `flag`: no value
+   * - `list`: comma-separated values
+   * - `repos`: comma-separated repo short names, checked against manifest.json
+   */
+  type: 'flag' | 'string' | 'int' | 'list' | 'repos'
+  /** Value placeholder in the help, e.g. `<range>` */
+  value?: string
+  description: string
+  /** Smallest accepted `int` value (default: 0) */
+  min?: number
+}
+
+export interface CommandSpec {
+  name: string
+  summary: string
+  /** Positional arguments in the usage line, e.g. `<install|uninstall>` */
+  usage?: string
+  /** Printed under the summary in the command help */
+  description?: string
+  options?: OptionSpec[]
+  examples?: string[]
+  /** Whether --dry-run is supported (the command only changes things through lib/run.ts and lib/fs.ts) */
+  dryRun?: boolean
+  /** Arguments after `--` are passed as `rest` instead of being parsed */
+  rest?: boolean
+  /** The result is printed with --json. Set `process.exitCode` rather than exiting on failures. */
+  run(args: ParsedArgs): Promise<unknown>
+}
+
+export interface ParsedArgs {
+  positionals: string[]
+  /** Arguments after `--` */
+  rest: string[]
+  flag(name: string): boolean
+  string(name: string): string | undefined
+  int(name: string): number | undefined
+  list(name: string): string[] | undefined
+}
+
+const GLOBAL_OPTIONS: OptionSpec[] = [
+  { name: 'dry-run', type: 'flag', description: 'Print the git/bun/file operations instead of running them' },
+  { name: 'verbose', type: 'flag', description: 'Print every operation before running it, and error stack traces' },
+  { name: 'json', type: 'flag', description: 'Print the result as JSON on stdout (other output goes to stderr)' },
+  { name: 'help', short: 'h', type: 'flag', description: 'Show this help message' },
+]
+
+function formatOptions(options: OptionSpec[]): string[] {
+  const labels = options.map((o) => {
+    const names = o.short ? `--${o.name}, -${o.short}` : `--${o.name}`
+    return o.type === 'flag' ? names : `${names} ${o.value ?? (o.type === 'repos' ? '<repos>' : '<value>')}`
+  })
+  const width = Math.max(...labels.map((l) => l.length))
+  return options.map((o, i) => `  ${labels[i].padEnd(width)}   ${o.description}`)
+}
+
+export function formatCommandHelp(command: CommandSpec): string {
+  const usage = command.usage ? ` ${command.usage}` : ''
+  const lines = [`Usage: ${CLI_NAME} ${command.name}${usage} [options]`, '', command.summary]
+  if (command.description) {
+    lines.push('', command.description)
+  }
+  if (command.options && command.options.length > 0) {
+    lines.push('', 'Options:', ...formatOptions(command.options))
+  }
+  const globals = GLOBAL_OPTIONS.filter((o) => o.name !== 'dry-run' || command.dryRun)
+  lines.push('', 'Global options:', ...formatOptions(globals))
+  if (command.examples && command.examples.length > 0) {
+    lines.push('', 'Examples:', ...command.examples.map((e) => `  ${CLI_NAME} ${e}`))
+  }
+  return lines.join('\n')
+}
+
+function formatCliHelp(commands: CommandSpec[]): string {
+  const width = Math.max(...commands.map((c) => c.name.length))
+  return [
+    `Usage: ${CLI_NAME} <command> [options]`,
+    '',
+    'Commands:',
+    ...commands.map((c) => `  ${c.name.padEnd(width)}   ${c.summary}`),
+    '',
+    'Global options:',
+    ...formatOptions(GLOBAL_OPTIONS),
+    '',
+    `Run \`${CLI_NAME} <command> --help\` for the options of a command.`,
+  ].join('\n')
+}
+
+/** Parses the arguments of a command, leaving the global options alone. Throws on invalid arguments. */
+async function parseCommandArgs(command: CommandSpec, argv: string[]): Promise<ParsedArgs> {
+  const separator = command.rest ? argv.indexOf('--') : -1
+  const args = separator === -1 ? argv : argv.slice(0, separator)
+  const rest = separator === -1 ? [] : argv.slice(separator + 1)
+
+  const specs = [...(command.options ?? []), ...GLOBAL_OPTIONS]
+  const values = new Map<string, string | number | string[] | true>()
+  const positionals: string[] = []
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg)
+      continue
+    }
+
+    const [name, inline] = arg.startsWith('--') ? arg.slice(2).split(/=(.*)/s) : [arg.slice(1)]
+    const spec = specs.find((s) => (arg.startsWith('--') ? s.name === name : s.short === name))
+    if (!spec) {
+      throw new Error(`Unknown option ${arg} for ${command.name} (see --help)`)
+    }
+
+    if (spec.type === 'flag') {
+      values.set(spec.name, true)
+      continue
+    }
+    const value = inline ?? args[++i]
+    if (value === undefined || (inline === undefined && value.startsWith('-'))) {
+      throw new Error(`--${spec.name} expects a value`)
+    }
+
+    if (spec.type === 'int') {
+      const number = Number(value)
+      const min = spec.min ?? 0
+      if (!Number.isInteger(number) || number < min) {
+        throw new Error(`--${spec.name} expects an integer of at least ${min}, got "${value}"`)
+      }
+      values.set(spec.name, number)
+    } else if (spec.type === 'list' || spec.type === 'repos') {
+      values.set(spec.name, value.split(',').map((s) => s.trim()).filter(Boolean))
+    } else {
+      values.set(spec.name, value)
+    }
+  }
+
+  const repoOptions = specs.filter((s) => s.type === 'repos' && values.has(s.name))
+  if (repoOptions.length > 0) {
+    const known = (await loadManifest()).repos.map((r) => r.shortName)
+    for (const spec of repoOptions) {
+      for (const name of values.get(spec.name) as string[]) {
+        if (!known.includes(name)) {
+          throw new Error(`--${spec.name}: unknown repo "${name}" (known repos: ${known.join(', ')})`)
+        }
+      }
+    }
+  }
+
+  return {
+    positionals,
+    rest,
+    flag: (name) => values.get(name) === true,
+    string: (name) => values.get(name) as string | undefined,
+    int: (name) => values.get(name) as number | undefined,
+    list: (name) => values.get(name) as string[] | undefined,
+  }
+}
+
+function checkDryRun(command: CommandSpec) {
+  if (globalOptions.dryRun && !command.dryRun) {
+    throw new Error(`${command.name} doesn't support --dry-run`)
+  }
+}
+
+/** Parses the arguments of a command, setting the global options. Throws on invalid arguments. */
+export async function parseArgs(command: CommandSpec, argv: string[]): Promise<ParsedArgs> {
+  const args = await parseCommandArgs(command, argv)
+  globalOptions.dryRun = args.flag('dry-run')
+  globalOptions.verbose = args.flag('verbose')
+  globalOptions.json = args.flag('json')
+  checkDryRun(command)
+  return args
+}
+
+/**
+ * Runs a command from within another one (`create` linking the new project). The global options of
+ * the running command apply, `argv` only holds the command's own options.
+ */
+export async function runSubcommand(command: CommandSpec, argv: string[]): Promise<unknown> {
+  const args = await parseCommandArgs(command, argv)
+  checkDryRun(command)
+  return await command.run(args)
+}
+
+/** Parses the arguments, runs the command and prints its result with --json. Exits on errors. */
+export async function runCommand(command: CommandSpec, argv: string[]) {
+  try {
+    const options = command.rest && argv.includes('--') ? argv.slice(0, argv.indexOf('--')) : argv
+    if (options.includes('--help') || options.includes('-h')) {
+      console.log(formatCommandHelp(command))
+      return
+    }
+
+    const args = await parseArgs(command, argv)
+
+    // Human-readable output goes to stderr, stdout only gets the JSON result
+    const writeStdout = process.stdout.write.bind(process.stdout)
+    if (globalOptions.json) {
+      console.log = console.error
+      process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write
+    }
+
+    const result = await command.run(args)
+
+    if (globalOptions.json) {
+      writeStdout(JSON.stringify(result ?? null, null, 2) + '\n')
+    }
+  } catch (err) {
+    console.error('Error:', globalOptions.verbose ? err : ((err as Error).message ?? err))
+    process.exit(1)
+  }
+}
+
+/** Dispatches `argv` to one of `commands` by its first argument. */
+export async function runCli(commands: CommandSpec[], argv: string[]) {
+  const [name, ...args] = argv
+  const command = commands.find((c) => c.name === name)
+
+  if (!command) {
+    console.log(formatCliHelp(commands))
+    if (name && name !== '--help' && name !== '-h') {
+      console.error(`\nError: Unknown command "${name}"`)
+      process.exit(1)
+    }
+    process.exit(name ? 0 : 1)
+  }
+
+  await runCommand(command, args)
+}
@@ -0,0 +1,103 @@
+/**
+ * Checks that the local versions of linked packages are ones their consumers would accept from npm:
+ * each must satisfy the range it replaces in the consumer's package.json, and the peer ranges of the
+ * other local packages linked next to it (a local sandstone outside of sandstone-cli's peer range
+ * otherwise only shows up as confusing runtime errors).
+ *
+ * Prereleases are matched as the release they precede (`1.2.0-beta.0` is in `^1.2.0`, like 1.2.0):
+ * local packages are usually ahead of what was published. Ranges that aren't semver (`workspace:*`, tags,
+ * git URLs) are not checked.
+ */
+
+import { join } from 'path'
+import { type LinkState, findLink } from './link-state.ts'
+import { type DependencyField, isLinked } from './package-json.ts'
+import { getReleaseVersion, isValidRange, satisfies } from './semver.ts'
+import { printTable } from './tasks.ts'
+import type { Consumer, LocalPackage, Workspace } from './workspace.ts'
+
+export interface CompatCheck {
+  /** Consumer repo short name */
+  repo: string
+  /** Consumer package directory relative to the repo */
+  path: string
+  name: string
+  /** Local version of the package */
+  version: string
+  range: string
+  /** Where the range comes from: a dependency field of the consumer, or `<package> peerDependencies` */
+  source: string
+  ok: boolean
+}
+
+/** Local packages linked (or about to be) into a consumer. */
+export interface CompatTarget {
+  consumer: Consumer
+  packages: LocalPackage[]
+}
+
+/** Range a dependency declares, looking through links to the specifier they replaced. */
+function getRange(state: LinkState, consumer: Consumer, field: DependencyField, name: string, specifier: string) {
+  if (!isLinked(specifier)) {
+    return specifier
+  }
+  return findLink(state, { repo: consumer.repo.shortName, path: consumer.path, field, name })?.original
+}
+
+export function checkCompat(workspace: Workspace, targets: CompatTarget[], state: LinkState): CompatCheck[] {
+  const checks: CompatCheck[] = []
+
+  for (const { consumer, packages } of targets) {
+    const check = (pkg: LocalPackage, range: string | undefined, source: string) => {
+      if (pkg.version && range && isValidRange(range)) {
+        const { shortName: repo } = consumer.repo
+        const ok = satisfies(getReleaseVersion(pkg.version), range)
+        checks.push({ repo, path: consumer.path, name: pkg.name, version: pkg.version, range, source, ok })
+      }
+    }
+
+    for (const pkg of packages) {
+      // The consumer's own ranges, peers included: they apply to the linked copy too
+      for (const { field, specifier } of consumer.dependencies.filter((d) => d.pkg === pkg)) {
+        check(pkg, getRange(state, consumer, field, pkg.name, specifier), field)
+      }
+
+      // The peer ranges of the other packages linked into the consumer
+      for (const other of packages.filter((p) => p !== pkg)) {
+        const declaring = workspace.consumers.find((c) => c.dir === other.dir)
+        for (const peer of declaring?.dependencies ?? []) {
+          if (peer.pkg === pkg && peer.field === 'peerDependencies') {
+            const range = getRange(state, declaring!, peer.field, pkg.name, peer.specifier)
+            check(pkg, range, `${other.name} peerDependencies`)
+          }
+        }
+      }
+    }
+  }
+
+  return checks
+}
+
+/**
+ * Prints a consumer by package matrix of the checks, each cell listing the ranges the local version is
+ * outside of. With `problemsOnly`, only the consumers and packages with a mismatch are shown.
+ */
+export function printCompatMatrix(checks: CompatCheck[], problemsOnly = false) {
+  const shown = problemsOnly ? checks.filter((c) => !c.ok) : checks
+  const consumerOf = (c: CompatCheck) => (c.path === '.' ? c.repo : join(c.repo, c.path))
+  const consumers = [...new Set(shown.map(consumerOf))]
+  const packages = [...new Map(shown.map((c) => [c.name, c.version]))]
+
+  const rows = consumers.map((consumer) => [
+    consumer,
+    ...packages.map(([name]) => {
+      const cell = checks.filter((c) => consumerOf(c) === consumer && c.name === name)
+      if (cell.length === 0) {
+        return '-'
+      }
+      const mismatches = cell.filter((c) => !c.ok)
+      return mismatches.length === 0 ? 'ok' : mismatches.map((c) => `not ${c.range} (${c.source})`).join(', ')
+    }),
+  ])
+  printTable(['consumer', ...packages.map(([name, version]) => `${name} ${version}`)], rows)
+}
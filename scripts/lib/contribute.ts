@@ -0,0 +1,75 @@
+/**
+ * Loads `manifest.contribute.json`, the personal (git-ignored) settings of a contributor: which
+ * git user/org to clone from and which repos they work on.
+ *
+ *   { "git-user": "sandstone-mc", "skip-repos": [], "repo-owners": { "cli": "MulverineX" } }
+ *
+ * Clone URLs come from `url-template`, where `{owner}` is the repo owner and `{repo}` the repo folder
+ * name, and can be overridden per repo (short name) with `repo-urls`, e.g. for SSH or a local mirror:
+ *
+ *   { "url-template": "git@github.com:{owner}/{repo}.git", "repo-urls": { "libraries": "/mirror/{repo}.git" } }
+ */
+
+import { join } from 'path'
+import { writeJson } from './fs.ts'
+import { DEFAULT_ORG, type Manifest, type RepoEntry, rootDir } from './manifest.ts'
+
+const contributePath = join(rootDir, 'manifest.contribute.json')
+export const DEFAULT_URL_TEMPLATE = 'https://github.com/{owner}/{repo}.git'
+
+export interface ContributeManifest {
+  'git-user': string
+  'skip-repos': string[]
+  'only-repos'?: string[]
+  'repo-owners'?: Record<string, string>
+  /** Clone URL of the repos, with `{owner}` and `{repo}` placeholders */
+  'url-template'?: string
+  /** Clone URLs (or templates) of specific repos, by short name */
+  'repo-urls'?: Record<string, string>
+}
+
+export async function loadContributeManifest(): Promise<ContributeManifest> {
+  const file = Bun.file(contributePath)
+  if (!(await file.exists())) {
+    return { 'git-user': DEFAULT_ORG, 'skip-repos': [] }
+  }
+  return await file.json()
+}
+
+export async function saveContributeManifest(config: ContributeManifest): Promise<void> {
+  await writeJson(contributePath, config)
+}
+
+export function shouldIncludeRepo(shortName: string, config: ContributeManifest): boolean {
+  if (config['only-repos'] && config['only-repos'].length > 0) {
+    return config['only-repos'].includes(shortName)
+  }
+  return !config['skip-repos'].includes(shortName)
+}
+
+export function getRepoOwner(shortName: string, config: ContributeManifest): string {
+  return config['repo-owners']?.[shortName] ?? config['git-user']
+}
+
+/**
+ * Clone URL of a repo: its `repo-urls` entry or the `url-template`, for its owner or the given one
+ * (e.g. sandstone-mc for the upstream of a fork, which per-repo URLs don't apply to).
+ */
+export function getRepoUrl(
+  repo: Pick<RepoEntry, 'shortName' | 'folderName'>,
+  config: ContributeManifest,
+  owner?: string
+): string {
+  const template =
+    (owner === undefined ? config['repo-urls']?.[repo.shortName] : undefined) ??
+    config['url-template'] ??
+    DEFAULT_URL_TEMPLATE
+  return template
+    .replaceAll('{owner}', owner ?? getRepoOwner(repo.shortName, config))
+    .replaceAll('{repo}', repo.folderName)
+}
+
+/** Repos whose entries belong in `.gitignore` and the VS Code workspace: included repos and test projects. */
+export function getManagedRepos(manifest: Manifest, config: ContributeManifest): RepoEntry[] {
+  return manifest.repos.filter((r) => r.project || shouldIncludeRepo(r.shortName, config))
+}
@@ -0,0 +1,164 @@
+/**
+ * Diffing generated datapack/resourcepack trees, for `compare`.
+ *
+ * Files are compared after normalizing them: JSON is re-serialized with sorted keys, so only
+ * formatting or key order changes don't show up, and text files (functions...) ignore line
+ * endings and trailing whitespace. Each file is reported as the resource it defines, e.g.
+ * `function minecraft:tick` for `data/minecraft/function/tick.mcfunction`.
+ */
+
+import { join } from 'path'
+
+export interface TreeChange {
+  /** Path relative to the output directory */
+  path: string
+  /** Resource type, e.g. `function`, `advancement` or `tags/function`. `file` outside of data/assets. */
+  kind: string
+  /** Resource location, e.g. `minecraft:tick`, or the path for other files */
+  id: string
+  change: 'added' | 'removed' | 'changed'
+  /** Changed lines of the normalized content, prefixed with `+`/`-` (empty for binary files) */
+  diff: string[]
+}
+
+const JSON_EXTENSIONS = ['.json', '.mcmeta']
+const TEXT_EXTENSIONS = ['.mcfunction', '.txt', '.lang', '.properties', '.fsh', '.vsh', '.glsl']
+
+/** Every file under `dir`, by relative path. */
+export async function readTree(dir: string): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>()
+  const glob = new Bun.Glob('**/*')
+  for await (const path of glob.scan({ cwd: dir, onlyFiles: true, dot: true })) {
+    files.set(path.split('\\').join('/'), Buffer.from(await Bun.file(join(dir, path)).arrayBuffer()))
+  }
+  return files
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/** Normalized text of a file, or null for binary files (compared byte for byte). */
+function normalize(path: string, content: Buffer): string | null {
+  const text = () =>
+    content
+      .toString('utf8')
+      .split(/\r?\n/)
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim()
+
+  if (JSON_EXTENSIONS.some((ext) => path.endsWith(ext))) {
+    try {
+      return JSON.stringify(sortKeys(JSON.parse(content.toString('utf8'))), null, 2)
+    } catch {
+      return text()
+    }
+  }
+  return TEXT_EXTENSIONS.some((ext) => path.endsWith(ext)) ? text() : null
+}
+
+/** Resource type and location of a file of a datapack (`data/`) or resourcepack (`assets/`). */
+function classify(path: string): { kind: string; id: string } {
+  const match = path.match(/(?:^|\/)(?:data|assets)\/([^/]+)\/(.+)$/)
+  if (!match) {
+    return { kind: 'file', id: path }
+  }
+  const [, namespace, rest] = match
+  const segments = rest.split('/')
+  // Tags are grouped by registry: data/<namespace>/tags/<registry>/<name>.json
+  const kindLength = segments[0] === 'tags' && segments.length > 2 ? 2 : 1
+  if (segments.length <= kindLength) {
+    return { kind: 'file', id: path }
+  }
+  const name = segments.slice(kindLength).join('/').replace(/\.[^./]+$/, '')
+  return { kind: segments.slice(0, kindLength).join('/'), id: `${namespace}:${name}` }
+}
+
+/** Removed (`-`) and added (`+`) lines between two texts, from their longest common subsequence. */
+function diffLines(before: string, after: string): string[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Skip the common start and end, the table below is quadratic
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let end = 0
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++
+  }
+  const x = a.slice(start, a.length - end)
+  const y = b.slice(start, b.length - end)
+
+  if (x.length * y.length > 4_000_000) {
+    return [...x.map((line) => `-${line}`), ...y.map((line) => `+${line}`)]
+  }
+
+  // lengths[i][j]: longest common subsequence of x[i..] and y[j..]
+  const width = y.length + 1
+  const lengths = new Uint32Array((x.length + 1) * width)
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        x[i] === y[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      i++
+      j++
+    } else if (j >= y.length || (i < x.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      lines.push(`-${x[i++]}`)
+    } else {
+      lines.push(`+${y[j++]}`)
+    }
+  }
+  return lines
+}
+
+/** Changes from the `before` tree to the `after` one, sorted by kind and id. */
+export function diffTrees(before: Map<string, Buffer>, after: Map<string, Buffer>): TreeChange[] {
+  const changes: TreeChange[] = []
+
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const old = before.get(path)
+    const current = after.get(path)
+    const { kind, id } = classify(path)
+
+    if (!old || !current) {
+      changes.push({ path, kind, id, change: old ? 'removed' : 'added', diff: [] })
+      continue
+    }
+    const oldText = normalize(path, old)
+    const currentText = normalize(path, current)
+    if (oldText === null || currentText === null) {
+      if (!old.equals(current)) {
+        changes.push({ path, kind, id, change: 'changed', diff: [] })
+      }
+    } else if (oldText !== currentText) {
+      changes.push({ path, kind, id, change: 'changed', diff: diffLines(oldText, currentText) })
+    }
+  }
+
+  return changes.sort(
+    (a, b) => a.kind.localeCompare(b.kind) || a.id.localeCompare(b.id) || a.path.localeCompare(b.path)
+  )
+}
@@ -0,0 +1,69 @@
+/**
+ * File helpers shared by the scripts. Writes and removals honor `--dry-run`.
+ */
+
+import { access, cp, mkdir, rm, symlink } from 'fs/promises'
+import { dirname, relative } from 'path'
+import { globalOptions, logDryRun } from './run.ts'
+
+export async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function readJson<T>(path: string): Promise<T> {
+  return await Bun.file(path).json()
+}
+
+/** Writes a file, creating its directory. */
+export async function writeFile(path: string, content: string | Uint8Array): Promise<void> {
+  if (globalOptions.dryRun) {
+    logDryRun(`write ${relative(process.cwd(), path)}`)
+    return
+  }
+  await mkdir(dirname(path), { recursive: true })
+  await Bun.write(path, content)
+}
+
+export async function writeJson(path: string, data: unknown): Promise<void> {
+  await writeFile(path, JSON.stringify(data, null, 2) + '\n')
+}
+
+/** Copies a file or directory. */
+export async function copy(from: string, to: string): Promise<void> {
+  if (globalOptions.dryRun) {
+    logDryRun(`copy ${relative(process.cwd(), from)} to ${relative(process.cwd(), to)}`)
+    return
+  }
+  await cp(from, to, { recursive: true })
+}
+
+export async function makeDir(path: string): Promise<void> {
+  if (globalOptions.dryRun) {
+    logDryRun(`create ${relative(process.cwd(), path)}`)
+    return
+  }
+  await mkdir(path, { recursive: true })
+}
+
+/** Creates a directory symlink at `path` pointing to `target`, creating its parent directory. */
+export async function createSymlink(target: string, path: string): Promise<void> {
+  if (globalOptions.dryRun) {
+    logDryRun(`link ${relative(process.cwd(), path)} to ${relative(process.cwd(), target)}`)
+    return
+  }
+  await mkdir(dirname(path), { recursive: true })
+  await symlink(target, path, 'dir')
+}
+
+export async function removeFile(path: string): Promise<void> {
+  if (globalOptions.dryRun) {
+    logDryRun(`remove ${relative(process.cwd(), path)}`)
+    return
+  }
+  await rm(path, { force: true, recursive: true })
+}
@@ -0,0 +1,89 @@
+/**
+ * Read-only git queries on workspace repos.
+ */
+
+import { $ } from 'bun'
+import { join } from 'path'
+
+export async function getGitOriginUrl(repoDir: string): Promise<string | null> {
+  return await getGitRemoteUrl(repoDir, 'origin')
+}
+
+export async function getGitRemoteUrl(repoDir: string, remote: string): Promise<string | null> {
+  try {
+    const result = await $`git -C ${repoDir} remote get-url ${remote}`.quiet().nothrow()
+    if (result.exitCode === 0) {
+      return result.stdout.toString().trim()
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null
+}
+
+export async function getGitBranch(repoDir: string): Promise<string | null> {
+  try {
+    const result = await $`git -C ${repoDir} branch --show-current`.quiet().nothrow()
+    if (result.exitCode === 0) {
+      return result.stdout.toString().trim()
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null
+}
+
+/** Remote-tracking branch of the current branch, e.g. `origin/main`, or null if it has none. */
+export async function getTrackingBranch(repoDir: string): Promise<string | null> {
+  const result = await $`git -C ${repoDir} rev-parse --abbrev-ref --symbolic-full-name @{upstream}`.quiet().nothrow()
+  if (result.exitCode !== 0) {
+    return null
+  }
+  return result.stdout.toString().trim() || null
+}
+
+/** Default branch of a remote, from its fetched HEAD or by asking the remote. */
+export async function getDefaultBranch(repoDir: string, remote: string): Promise<string | null> {
+  const local = await $`git -C ${repoDir} symbolic-ref --short refs/remotes/${remote}/HEAD`.quiet().nothrow()
+  if (local.exitCode === 0) {
+    return local.stdout.toString().trim().replace(`${remote}/`, '')
+  }
+
+  const remoteHead = await $`git -C ${repoDir} ls-remote --symref ${remote} HEAD`.quiet().nothrow()
+  const match = remoteHead.stdout.toString().match(/^ref: refs\/heads\/(\S+)\s+HEAD/m)
+  return match ? match[1] : null
+}
+
+/** Commits ahead of/behind the upstream of the current branch, or null without an upstream. */
+export async function getAheadBehind(repoDir: string): Promise<{ ahead: number; behind: number } | null> {
+  const result = await $`git -C ${repoDir} rev-list --left-right --count @{upstream}...HEAD`.quiet().nothrow()
+  if (result.exitCode !== 0) {
+    return null
+  }
+  const [behind, ahead] = result.stdout.toString().trim().split(/\s+/).map(Number)
+  return { ahead, behind }
+}
+
+export async function getWorkingTreeCounts(repoDir: string): Promise<{ dirty: number; untracked: number }> {
+  const result = await $`git -C ${repoDir} status --porcelain`.quiet().nothrow()
+  const lines = result.stdout.toString().split('\n').filter(Boolean)
+  const untracked = lines.filter((l) => l.startsWith('??')).length
+  return { dirty: lines.length - untracked, untracked }
+}
+
+/** Owner part of a GitHub-style remote URL (https or ssh), e.g. `sandstone-mc`. */
+export function getRemoteOwner(url: string): string | null {
+  const match = url.match(/[:/]([^/:]+)\/[^/]+?(?:\.git)?\/?$/)
+  return match ? match[1] : null
+}
+
+/** Full SHA of the checked out commit, or null in an empty repo. */
+export async function getHeadCommit(repoDir: string): Promise<string | null> {
+  const result = await $`git -C ${repoDir} rev-parse --verify --quiet HEAD`.quiet().nothrow()
+  return result.exitCode === 0 ? result.stdout.toString().trim() : null
+}
+
+/** Bundle of a repo in a directory of `export-bundles`, which `setup --from-bundles` clones from. */
+export function getBundlePath(bundlesDir: string, folderName: string): string {
+  return join(bundlesDir, `${folderName}.bundle`)
+}
@@ -0,0 +1,41 @@
+/**
+ * The global registrations made by `bun link`: symlinks from bun's global node_modules to the
+ * registered package directories.
+ */
+
+import { lstat, readlink } from 'fs/promises'
+import { homedir } from 'os'
+import { dirname, join, resolve } from 'path'
+import { createSymlink, removeFile } from './fs.ts'
+
+export function getGlobalModulesDir(): string {
+  const globalDir =
+    process.env.BUN_INSTALL_GLOBAL_DIR ?? join(process.env.BUN_INSTALL ?? join(homedir(), '.bun'), 'install', 'global')
+  return join(globalDir, 'node_modules')
+}
+
+/** Target of a symlink, or null if `path` isn't one. */
+export async function getLinkTarget(path: string): Promise<string | null> {
+  const stats = await lstat(path).catch(() => null)
+  if (!stats?.isSymbolicLink()) {
+    return null
+  }
+  return resolve(dirname(path), await readlink(path))
+}
+
+/** Directory a package is registered from, or null if it isn't registered. */
+export async function getRegistration(name: string): Promise<string | null> {
+  return await getLinkTarget(join(getGlobalModulesDir(), name))
+}
+
+/**
+ * Registers a package from `target` (or unregisters it with null) without going through `bun link`.
+ * Scoped packages get their `@scope` directory created.
+ */
+export async function setRegistration(name: string, target: string | null): Promise<void> {
+  const path = join(getGlobalModulesDir(), name)
+  await removeFile(path)
+  if (target) {
+    await createSymlink(target, path)
+  }
+}
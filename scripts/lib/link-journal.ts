@@ -0,0 +1,217 @@
+/**
+ * Journal making `link` and `unlink` transactional. All steps are planned up front and written to
+ * `.work/link-journal.json`; before a step changes anything, what it is about to change (files,
+ * global `bun link` registrations) is saved in the journal. When a step fails, every change is
+ * rolled back. When the process is interrupted instead, the journal stays so the operation can be
+ * resumed (`link --resume`) or rolled back (`link --rollback`).
+ *
+ * Steps are run by link.ts, this module only keeps track of them.
+ */
+
+import { join, relative } from 'path'
+import { fileExists, readJson, removeFile, writeFile, writeJson } from './fs.ts'
+import { getRegistration, setRegistration } from './global-links.ts'
+import { rootDir, stateDir } from './manifest.ts'
+import type { DependencyField } from './package-json.ts'
+import { exec, globalOptions } from './run.ts'
+
+const journalPath = join(stateDir, 'link-journal.json')
+
+interface ConsumerStep {
+  /** Consumer repo short name */
+  repo: string
+  /** Consumer package directory relative to the repo */
+  path: string
+  dir: string
+}
+
+export type JournalStep =
+  | { type: 'build'; name: string; dir: string; command: string; reason: string }
+  | { type: 'register'; name: string; dir: string }
+  | { type: 'unregister'; name: string; dir: string }
+  /** `bun pm pack` of a package into `tarball` (`link --pack`) */
+  | { type: 'pack'; name: string; dir: string; tarball: string }
+  /** `bun link --save` of a package into a consumer, with the specifiers it replaces */
+  | (ConsumerStep & { type: 'link'; name: string; originals: Partial<Record<DependencyField, string>> })
+  /** Points a consumer's dependencies to packed tarballs and installs them, with the specifiers replaced */
+  | (ConsumerStep & {
+      type: 'install'
+      packages: { name: string; tarball: string; originals: Partial<Record<DependencyField, string>> }[]
+    })
+  /** Writes the versions back into a consumer's package.json and reinstalls */
+  | (ConsumerStep & { type: 'restore'; versions: { field: DependencyField; name: string; version: string }[] })
+
+export interface LinkJournal {
+  operation: 'link' | 'unlink'
+  startedAt: string
+  /** Registry passed to the installs, when not the default one */
+  registry?: string
+  steps: JournalStep[]
+  /** Number of steps applied */
+  done: number
+  /** Contents before the first change, null for files that didn't exist */
+  files: { path: string; content: string | null }[]
+  /** Registration targets before the first change, null for packages that weren't registered */
+  registrations: { name: string; target: string | null }[]
+  /** Directories whose node_modules changed: reinstalled on rollback, or deleted if they weren't installed */
+  installs: { dir: string; installed: boolean }[]
+}
+
+export function createJournal(
+  operation: LinkJournal['operation'],
+  steps: JournalStep[],
+  registry?: string
+): LinkJournal {
+  return {
+    operation,
+    startedAt: new Date().toISOString(),
+    registry,
+    steps,
+    done: 0,
+    files: [],
+    registrations: [],
+    installs: [],
+  }
+}
+
+export async function loadJournal(): Promise<LinkJournal | null> {
+  if (!(await Bun.file(journalPath).exists())) {
+    return null
+  }
+  return await readJson<LinkJournal>(journalPath)
+}
+
+/** The journal is bookkeeping: nothing to print or write with --dry-run. */
+async function saveJournal(journal: LinkJournal): Promise<void> {
+  if (!globalOptions.dryRun) {
+    await writeJson(journalPath, journal)
+  }
+}
+
+async function removeJournal(): Promise<void> {
+  if (!globalOptions.dryRun) {
+    await removeFile(journalPath)
+  }
+}
+
+export function describeStep(step: JournalStep): string {
+  const consumer = (s: { repo: string; path: string }) => (s.path === '.' ? s.repo : `${s.repo}/${s.path}`)
+  switch (step.type) {
+    case 'build':
+      return `build ${step.name} (${step.reason})`
+    case 'register':
+      return `register ${step.name} with bun link`
+    case 'unregister':
+      return `unregister ${step.name}`
+    case 'pack':
+      return `pack ${step.name}`
+    case 'link':
+      return `link ${step.name} into ${consumer(step)}`
+    case 'install':
+      return `install the ${step.packages.map((p) => p.name).join(', ')} tarballs into ${consumer(step)}`
+    case 'restore':
+      return `restore ${step.versions.map((v) => `${v.name}@${v.version}`).join(', ')} in ${consumer(step)}`
+  }
+}
+
+/** Saves the current content of files a step is about to change, unless an earlier step did. */
+export async function backupFiles(journal: LinkJournal, paths: string[]): Promise<void> {
+  let changed = false
+  for (const path of paths) {
+    if (journal.files.some((f) => f.path === path)) {
+      continue
+    }
+    const file = Bun.file(path)
+    journal.files.push({ path, content: (await file.exists()) ? await file.text() : null })
+    changed = true
+  }
+  if (changed) {
+    await saveJournal(journal)
+  }
+}
+
+/** Saves the registration of a package a step is about to change, unless an earlier step did. */
+export async function backupRegistration(journal: LinkJournal, name: string): Promise<void> {
+  if (!journal.registrations.some((r) => r.name === name)) {
+    journal.registrations.push({ name, target: await getRegistration(name) })
+    await saveJournal(journal)
+  }
+}
+
+/** Records whether directories whose node_modules a step is about to change were installed. */
+export async function backupInstalls(journal: LinkJournal, dirs: string[]): Promise<void> {
+  let changed = false
+  for (const dir of dirs) {
+    if (!journal.installs.some((i) => i.dir === dir)) {
+      journal.installs.push({ dir, installed: await fileExists(join(dir, 'node_modules')) })
+      changed = true
+    }
+  }
+  if (changed) {
+    await saveJournal(journal)
+  }
+}
+
+/** Puts back everything the journal's steps changed, then deletes the journal. */
+export async function rollback(journal: LinkJournal): Promise<void> {
+  console.log(`\nRolling back ${journal.operation}...`)
+
+  for (const { path, content } of [...journal.files].reverse()) {
+    console.log(`  restoring ${relative(rootDir, path)}`)
+    if (content === null) {
+      await removeFile(path)
+    } else {
+      await writeFile(path, content)
+    }
+  }
+
+  for (const { name, target } of journal.registrations) {
+    if ((await getRegistration(name)) !== target) {
+      console.log(target ? `  registering ${name} from ${relative(rootDir, target)} again` : `  unregistering ${name}`)
+      await setRegistration(name, target)
+    }
+  }
+
+  // Bring node_modules back in line with the restored package.json and bun.lock files
+  const registryArgs = journal.registry ? ['--registry', journal.registry] : []
+  for (const { dir, installed } of journal.installs) {
+    if (!installed) {
+      console.log(`  removing ${relative(rootDir, join(dir, 'node_modules'))}`)
+      await removeFile(join(dir, 'node_modules'))
+      continue
+    }
+    console.log(`  reinstalling ${relative(rootDir, dir) || '.'}`)
+    const install = await exec(['bun', 'install', ...registryArgs], { cwd: dir, quiet: true, nothrow: true })
+    if (install.exitCode !== 0) {
+      console.log('    bun install failed, run it again by hand')
+    }
+  }
+
+  await removeJournal()
+  console.log('Rolled back, the workspace is as it was before.')
+}
+
+/**
+ * Applies the steps not done yet, saving the progress after each one. If a step throws, the
+ * journal is rolled back and the error rethrown.
+ */
+export async function runJournal(journal: LinkJournal, apply: (step: JournalStep) => Promise<void>): Promise<void> {
+  await saveJournal(journal)
+
+  while (journal.done < journal.steps.length) {
+    const step = journal.steps[journal.done]
+    try {
+      await apply(step)
+    } catch (err) {
+      console.log(`\nStep ${journal.done + 1}/${journal.steps.length} failed: ${describeStep(step)}`)
+      await rollback(journal)
+      throw new Error(`Could not ${describeStep(step)}, all changes were rolled back (${(err as Error).message})`, {
+        cause: err,
+      })
+    }
+    journal.done++
+    await saveJournal(journal)
+  }
+
+  await removeJournal()
+}
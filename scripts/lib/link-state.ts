@@ -0,0 +1,63 @@
+/**
+ * Persistent record of the dependency specifiers rewritten by `link`, so `unlink` can put back
+ * the exact values instead of guessing from the registry.
+ *
+ * Stored in `.work/link-state.json` at the work root.
+ */
+
+import { join } from 'path'
+import { removeFile, writeJson } from './fs.ts'
+import { stateDir } from './manifest.ts'
+import type { DependencyField } from './package-json.ts'
+
+export const linkStatePath = join(stateDir, 'link-state.json')
+
+export interface LinkRecord {
+  /** Consumer repo short name */
+  repo: string
+  /** Consumer package directory relative to the repo */
+  path: string
+  field: DependencyField
+  name: string
+  /** Specifier found before linking, e.g. `^1.2.0` */
+  original: string
+}
+
+export interface LinkState {
+  links: LinkRecord[]
+}
+
+function isSameLink(a: Omit<LinkRecord, 'original'>, b: Omit<LinkRecord, 'original'>): boolean {
+  return a.repo === b.repo && a.path === b.path && a.field === b.field && a.name === b.name
+}
+
+export async function loadLinkState(): Promise<LinkState> {
+  const file = Bun.file(linkStatePath)
+  if (!(await file.exists())) {
+    return { links: [] }
+  }
+  return await file.json()
+}
+
+export async function saveLinkState(state: LinkState): Promise<void> {
+  if (state.links.length === 0) {
+    await removeFile(linkStatePath)
+    return
+  }
+  await writeJson(linkStatePath, state)
+}
+
+/** Records the original specifier, keeping the first one if the link was already recorded. */
+export function recordLink(state: LinkState, record: LinkRecord): void {
+  if (!state.links.some((r) => isSameLink(r, record))) {
+    state.links.push(record)
+  }
+}
+
+export function findLink(state: LinkState, link: Omit<LinkRecord, 'original'>): LinkRecord | undefined {
+  return state.links.find((r) => isSameLink(r, link))
+}
+
+export function removeLink(state: LinkState, link: Omit<LinkRecord, 'original'>): void {
+  state.links = state.links.filter((r) => !isSameLink(r, link))
+}
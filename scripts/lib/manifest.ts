@@ -0,0 +1,194 @@
+/**
+ * Loads and normalizes `manifest.json`, the description of every repo in the workspace
+ * and the packages they publish.
+ *
+ * A repo entry is either a plain folder name (the original flat form):
+ *   "documentation": "sandstone-documentation"
+ *
+ * or an object describing the packages living in that repo:
+ *   "hot-hook": {
+ *     "folder": "hot-hook",
+ *     "packages": {
+ *       "@sandstone-mc/hot-hook": {
+ *         "path": "packages/hot_hook",       - Package directory relative to the repo (default: ".")
+ *         "build": "bun run build",          - Command building the package (optional)
+ *         "output": "build",                 - Build output directory relative to the package (optional)
+ *         "consumers": {                     - Packages consuming it, and the field they link it into (optional)
+ *           "cli": "dependencies",           - `<repo>` for the repo root package
+ *           "libraries/packages/x": "devDependencies"  - `<repo>/<path>` for a nested one
+ *         }
+ *       }
+ *     }
+ *   }
+ *
+ * `link` takes the declared consumers as they are: the package is linked into the declared field
+ * only, and `doctor` reports a declared consumer whose package.json doesn't list it there. Repos
+ * not declared as consumers are still found by scanning their package.json files (see
+ * `workspace.ts`), so linking into a new repo doesn't need a manifest change.
+ *
+ * Test projects created from a template (`create.ts`) are registered locally in
+ * `.work/projects.json` and show up as extra repos with `project` set.
+ */
+
+import { join } from 'path'
+import { writeJson } from './fs.ts'
+import { type DependencyField, dependencyFields } from './package-json.ts'
+
+export const rootDir = join(import.meta.dir, '..', '..')
+
+/** Local state of the work scripts (link records, snapshots...), git-ignored */
+export const stateDir = join(rootDir, '.work')
+
+/** Owner of the canonical repos */
+export const DEFAULT_ORG = 'sandstone-mc'
+
+interface RawPackage {
+  path?: string
+  build?: string
+  output?: string
+  consumers?: Record<string, DependencyField>
+}
+
+interface RawRepo {
+  folder: string
+  packages?: Record<string, RawPackage>
+}
+
+type RawManifest = Record<string, string | RawRepo>
+
+export interface ConsumerEntry {
+  /** Short name of the consuming repo */
+  repo: string
+  /** Consuming package directory relative to the repo, `.` for the repo root */
+  path: string
+  field: DependencyField
+}
+
+export interface PackageEntry {
+  /** npm package name */
+  name: string
+  /** Short name of the repo holding the package */
+  repo: string
+  /** Absolute package directory */
+  dir: string
+  build?: string
+  /** Absolute build output directory */
+  output?: string
+  consumers: ConsumerEntry[]
+}
+
+export interface RepoEntry {
+  shortName: string
+  folderName: string
+  /** Absolute repo directory */
+  dir: string
+  packages: PackageEntry[]
+  /** Local test project created from a template, not a cloned repo */
+  project: boolean
+}
+
+export interface ProjectRecord {
+  /** Folder relative to the work root */
+  folder: string
+  /** Template branch the project was created from */
+  template: string
+  createdAt: string
+}
+
+const projectsPath = join(stateDir, 'projects.json')
+
+export interface Manifest {
+  repos: RepoEntry[]
+}
+
+function normalizeConsumers(name: string, raw: Record<string, DependencyField>): ConsumerEntry[] {
+  return Object.entries(raw).map(([consumer, field]) => {
+    if (!dependencyFields.includes(field)) {
+      throw new Error(`manifest.json: package "${name}" has an invalid field "${field}" for consumer "${consumer}"`)
+    }
+    const [repo, ...path] = consumer.split('/')
+    return { repo, path: path.join('/') || '.', field }
+  })
+}
+
+function normalizeRepo(shortName: string, raw: string | RawRepo): RepoEntry {
+  const folderName = typeof raw === 'string' ? raw : raw.folder
+  if (typeof folderName !== 'string' || folderName === '') {
+    throw new Error(`manifest.json: repo "${shortName}" has no folder`)
+  }
+
+  const dir = join(rootDir, folderName)
+  const packages: PackageEntry[] = []
+
+  if (typeof raw !== 'string') {
+    for (const [name, pkg] of Object.entries(raw.packages ?? {})) {
+      const packageDir = join(dir, pkg.path ?? '.')
+      packages.push({
+        name,
+        repo: shortName,
+        dir: packageDir,
+        build: pkg.build,
+        output: pkg.output ? join(packageDir, pkg.output) : undefined,
+        consumers: normalizeConsumers(name, pkg.consumers ?? {}),
+      })
+    }
+  }
+
+  return { shortName, folderName, dir, packages, project: false }
+}
+
+export async function loadProjects(): Promise<Record<string, ProjectRecord>> {
+  const file = Bun.file(projectsPath)
+  if (!(await file.exists())) {
+    return {}
+  }
+  return await file.json()
+}
+
+export async function saveProjects(projects: Record<string, ProjectRecord>): Promise<void> {
+  await writeJson(projectsPath, projects)
+}
+
+export async function loadManifest(): Promise<Manifest> {
+  const raw: RawManifest = await Bun.file(join(rootDir, 'manifest.json')).json()
+  const repos = Object.entries(raw).map(([shortName, entry]) => normalizeRepo(shortName, entry))
+  for (const pkg of repos.flatMap((r) => r.packages)) {
+    for (const consumer of pkg.consumers) {
+      if (!repos.some((r) => r.shortName === consumer.repo)) {
+        throw new Error(`manifest.json: package "${pkg.name}" declares a consumer in unknown repo "${consumer.repo}"`)
+      }
+    }
+  }
+
+  for (const [shortName, project] of Object.entries(await loadProjects())) {
+    if (repos.some((r) => r.shortName === shortName)) {
+      throw new Error(`.work/projects.json: project "${shortName}" has the name of a manifest.json repo`)
+    }
+    repos.push({ ...normalizeRepo(shortName, project.folder), project: true })
+  }
+
+  return { repos }
+}
+
+export function getRepo(manifest: Manifest, shortName: string): RepoEntry {
+  const repo = manifest.repos.find((r) => r.shortName === shortName)
+  if (!repo) {
+    throw new Error(`manifest.json: unknown repo "${shortName}"`)
+  }
+  return repo
+}
+
+/** All packages declared in the manifest, in manifest order. */
+export function getPackages(manifest: Manifest): PackageEntry[] {
+  return manifest.repos.flatMap((r) => r.packages)
+}
+
+/** Repos kept by `--only`/`--skip` style filters (short names), in manifest order. */
+export function selectRepos(manifest: Manifest, only?: string[], skip?: string[]): RepoEntry[] {
+  for (const name of [...(only ?? []), ...(skip ?? [])]) {
+    if (!manifest.repos.some((r) => r.shortName === name)) {
+      throw new Error(`Unknown repo "${name}". Known repos: ${manifest.repos.map((r) => r.shortName).join(', ')}`)
+    }
+  }
+  return manifest.repos.filter((r) => (!only || only.includes(r.shortName)) && !skip?.includes(r.shortName))
+}
@@ -0,0 +1,127 @@
+/**
+ * Checks that an installed package is usable the way a consumer would use it once published:
+ * the files its package.json points to were packed, and each of its `exports` entries can be
+ * imported from the consumer (which also catches dependencies missing from package.json).
+ */
+
+import { $ } from 'bun'
+import { dirname, join } from 'path'
+import { fileExists } from './fs.ts'
+import { type PackageJson, readPackageJson } from './package-json.ts'
+
+export interface ExportsProblem {
+  /** What was checked, e.g. `exports["./utils"].types` or `import sandstone/utils` */
+  entry: string
+  message: string
+}
+
+/** Directory a package is installed in for `dir`, looking up through the parent node_modules. */
+export async function findInstalledPackage(name: string, dir: string): Promise<string | null> {
+  for (let current = dir; ; current = dirname(current)) {
+    const installed = join(current, 'node_modules', name)
+    if (await fileExists(join(installed, 'package.json'))) {
+      return installed
+    }
+    if (dirname(current) === current) {
+      return null
+    }
+  }
+}
+
+/** Relative file targets in an `exports` value, with the path of conditions leading to them. */
+function collectTargets(value: unknown, entry: string, targets: { entry: string; file: string }[]) {
+  if (typeof value === 'string') {
+    if (value.startsWith('./') && !value.includes('*')) {
+      targets.push({ entry, file: value })
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectTargets(v, entry, targets))
+  } else if (value && typeof value === 'object') {
+    for (const [key, v] of Object.entries(value)) {
+      collectTargets(v, `${entry}[${JSON.stringify(key)}]`, targets)
+    }
+  }
+}
+
+/** Whether an `exports` value resolves to something importable at runtime, not only to types. */
+function hasRuntimeTarget(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return !/\.d\.[cm]?ts$/.test(value)
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasRuntimeTarget)
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).some(([key, v]) => key !== 'types' && hasRuntimeTarget(v))
+  }
+  return false
+}
+
+/** Subpaths exported by a package with their value, `.` alone when `exports` only has conditions. */
+function getSubpaths(json: PackageJson): [string, unknown][] {
+  const exports = json.exports
+  if (exports === undefined) {
+    return [['.', json.main ?? './index.js']]
+  }
+  if (exports && typeof exports === 'object' && !Array.isArray(exports)) {
+    const entries = Object.entries(exports)
+    if (entries.some(([key]) => key.startsWith('.'))) {
+      return entries.filter(([key]) => !key.includes('*'))
+    }
+  }
+  return [['.', exports]]
+}
+
+async function tryImport(specifier: string, cwd: string): Promise<string | null> {
+  const result = await $`bun --eval ${`await import(${JSON.stringify(specifier)})`}`.cwd(cwd).quiet().nothrow()
+  if (result.exitCode === 0) {
+    return null
+  }
+  const lines = result.stderr.toString().trim().split('\n').filter((l) => l.trim() && !l.startsWith('Bun v'))
+  const error = lines.find((l) => l.startsWith('error:'))?.replace(/^error:\s*/, '') ?? lines.at(-1) ?? 'import failed'
+  // Paths like node_modules/.bun/<store entry>/node_modules/sandstone/dist/index.js say little
+  return error.replace(/ from '[^']*\[eval\]'$/, '').replace(/ from '.*\/node_modules\/([^']+)'$/, " from '$1'")
+}
+
+/** Problems with the installed copy of `name` as seen from the consumer in `dir`. */
+export async function checkExports(name: string, dir: string): Promise<ExportsProblem[]> {
+  const installed = await findInstalledPackage(name, dir)
+  if (!installed) {
+    return [{ entry: name, message: 'not installed' }]
+  }
+
+  const json = await readPackageJson(installed)
+  const problems: ExportsProblem[] = []
+
+  // Files the package.json points to must have been packed
+  const targets: { entry: string; file: string }[] = []
+  for (const field of ['main', 'module', 'types', 'typings'] as const) {
+    if (typeof json[field] === 'string') {
+      targets.push({ entry: field, file: json[field] as string })
+    }
+  }
+  collectTargets(json.exports, 'exports', targets)
+  const bin = typeof json.bin === 'string' ? { [name]: json.bin } : (json.bin as Record<string, string> | undefined)
+  for (const [command, file] of Object.entries(bin ?? {})) {
+    targets.push({ entry: `bin[${JSON.stringify(command)}]`, file })
+  }
+  for (const { entry, file } of targets) {
+    if (!(await fileExists(join(installed, file)))) {
+      problems.push({ entry, message: `${file} is missing from the package (check "files" and the build)` })
+    }
+  }
+
+  // Each subpath must import, with the dependencies the package declares
+  for (const [subpath, value] of getSubpaths(json)) {
+    if (subpath.endsWith('package.json') || !hasRuntimeTarget(value)) {
+      continue
+    }
+    const specifier = subpath === '.' ? name : `${name}/${subpath.slice(2)}`
+    const error = await tryImport(specifier, dir)
+    if (error) {
+      problems.push({ entry: `import ${specifier}`, message: error })
+    }
+  }
+
+  return problems
+}
@@ -0,0 +1,44 @@
+/**
+ * package.json reading/writing and dependency specifier helpers.
+ */
+
+import { join } from 'path'
+import { writeJson } from './fs.ts'
+
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies'
+
+export const dependencyFields: DependencyField[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+]
+
+export interface PackageJson {
+  name: string
+  version?: string
+  scripts?: Record<string, string>
+  workspaces?: string[] | { packages?: string[] }
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  [key: string]: unknown
+}
+
+export async function readPackageJson(dir: string): Promise<PackageJson> {
+  return await Bun.file(join(dir, 'package.json')).json()
+}
+
+export async function writePackageJson(dir: string, pkg: PackageJson): Promise<void> {
+  await writeJson(join(dir, 'package.json'), pkg)
+}
+
+/** Whether a specifier points to a local copy: a `bun link`, or a tarball installed by `link --pack`. */
+export function isLinked(version: string | undefined): boolean {
+  return version?.startsWith('link:') || version?.startsWith('file:') || false
+}
+
+export function isPacked(version: string | undefined): boolean {
+  return (version?.startsWith('file:') && version.endsWith('.tgz')) || false
+}
@@ -0,0 +1,93 @@
+/**
+ * Global options shared by every command, and running the commands that change the workspace
+ * (clone, checkout, install, link...) so `--dry-run` and `--verbose` apply to all of them.
+ *
+ * Read-only queries (`git status`, `git rev-parse`...) keep using `$` directly.
+ */
+
+import { $ } from 'bun'
+import { relative } from 'path'
+
+export interface GlobalOptions {
+  /** Print the operations changing the workspace instead of running them */
+  dryRun: boolean
+  /** Print every operation before running it */
+  verbose: boolean
+  /** Print the command result as JSON on stdout, everything else goes to stderr */
+  json: boolean
+}
+
+export const globalOptions: GlobalOptions = { dryRun: false, verbose: false, json: false }
+
+export interface ExecOptions {
+  cwd?: string
+  /** Buffer the output instead of printing it */
+  quiet?: boolean
+  /** Resolve with the non-zero exit code instead of throwing */
+  nothrow?: boolean
+  /** Where the dry-run/verbose line goes (default: console.log) */
+  log?: (line: string) => void
+}
+
+function quote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+function describe(command: string[] | string, cwd?: string): string {
+  const text = typeof command === 'string' ? command : command.map(quote).join(' ')
+  return cwd ? `${text}  (in ${relative(process.cwd(), cwd) || '.'})` : text
+}
+
+/** What a dry-run command resolves to: a success without output. */
+function dryRunOutput(): $.ShellOutput {
+  const empty = Buffer.alloc(0)
+  return {
+    exitCode: 0,
+    stdout: empty,
+    stderr: empty,
+    text: () => '',
+    json: () => null,
+    lines: () => [][Symbol.iterator](),
+    arrayBuffer: () => new ArrayBuffer(0),
+    bytes: () => new Uint8Array(),
+    blob: () => new Blob([]),
+  } as unknown as $.ShellOutput
+}
+
+/** Prints an operation that --dry-run skips, for the ones not going through `exec` (file writes...). */
+export function logDryRun(description: string, log: (line: string) => void = console.log) {
+  log(`[dry-run] ${description}`)
+}
+
+/**
+ * Runs a command that changes the workspace. `command` is a list of arguments, or a raw shell
+ * string for configured commands (e.g. a manifest build command).
+ */
+export async function exec(command: string[] | string, options: ExecOptions = {}): Promise<$.ShellOutput> {
+  const log = options.log ?? console.log
+  if (globalOptions.dryRun) {
+    logDryRun(describe(command, options.cwd), log)
+    return dryRunOutput()
+  }
+  if (globalOptions.verbose) {
+    log(`$ ${describe(command, options.cwd)}`)
+  }
+
+  let shell = typeof command === 'string' ? $`${{ raw: command }}` : $`${command}`
+  if (options.cwd) {
+    shell = shell.cwd(options.cwd)
+  }
+  if (options.nothrow) {
+    shell = shell.nothrow()
+  }
+  // stdout is reserved for the JSON result
+  if (!options.quiet && !globalOptions.json) {
+    return await shell
+  }
+  const result = await shell.quiet()
+  if (!options.quiet) {
+    process.stderr.write(result.stdout)
+    process.stderr.write(result.stderr)
+  }
+  return result
+}
@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  caretRange,
+  coerceVersion,
+  compareVersions,
+  formatVersion,
+  getReleaseVersion,
+  isValidRange,
+  isValidVersion,
+  maxSatisfying,
+  parseVersion,
+  replaceRangeVersion,
+  satisfies,
+} from './semver.ts'
+
+describe('parseVersion and formatVersion', () => {
+  test('parses release, prerelease and build parts', () => {
+    expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [], build: [] })
+    expect(parseVersion('v1.2.3-beta.4+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', 4],
+      build: ['build', '5'],
+    })
+  })
+
+  test('rejects invalid versions', () => {
+    for (const version of ['1.2', '1.2.3.4', '01.2.3', '1.2.3-', '1.2.3-01', 'latest', '']) {
+      expect(isValidVersion(version)).toBe(false)
+    }
+  })
+
+  test('formats back, with build metadata on request', () => {
+    const version = parseVersion('1.2.3-rc.1+sha.abc')!
+    expect(formatVersion(version)).toBe('1.2.3-rc.1')
+    expect(formatVersion(version, true)).toBe('1.2.3-rc.1+sha.abc')
+  })
+
+  test('coerces partial versions', () => {
+    expect(formatVersion(coerceVersion('1')!)).toBe('1.0.0')
+    expect(formatVersion(coerceVersion('v1.2')!)).toBe('1.2.0')
+    expect(coerceVersion('main')).toBeNull()
+  })
+})
+
+describe('compareVersions', () => {
+  test('orders by major, minor and patch', () => {
+    expect(compareVersions('1.2.3', '1.2.4')).toBeLessThan(0)
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0)
+    expect(compareVersions('2.0.0', '2.0.0')).toBe(0)
+  })
+
+  test('orders prereleases before their release and by identifiers', () => {
+    const sorted = [
+      '1.0.0-0',
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+    ]
+    expect([...sorted].reverse().sort(compareVersions)).toEqual(sorted)
+  })
+
+  test('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0)
+  })
+
+  test('throws on invalid versions', () => {
+    expect(() => compareVersions('1.0', '1.0.0')).toThrow()
+  })
+})
+
+describe('ranges', () => {
+  const cases: [string, string[], string[]][] = [
+    ['^1.2.3', ['1.2.3', '1.9.0'], ['1.2.2', '2.0.0']],
+    ['^0.2.3', ['0.2.3', '0.2.9'], ['0.3.0']],
+    ['^0.0.3', ['0.0.3'], ['0.0.4']],
+    ['^1.2', ['1.2.0', '1.99.0'], ['1.1.9', '2.0.0']],
+    ['~1.2.3', ['1.2.3', '1.2.9'], ['1.3.0']],
+    ['~1', ['1.0.0', '1.9.9'], ['2.0.0']],
+    ['1.2.x', ['1.2.0', '1.2.99'], ['1.3.0']],
+    ['1', ['1.0.0', '1.5.0'], ['2.0.0']],
+    ['*', ['0.0.1', '9.9.9'], []],
+    ['>=1.0 <2', ['1.0.0', '1.9.9'], ['0.9.9', '2.0.0']],
+    ['1.2 - 1.4', ['1.2.0', '1.4.9'], ['1.5.0']],
+    ['^1 || ^3', ['1.5.0', '3.0.0'], ['2.0.0']],
+    ['1.2.3', ['1.2.3'], ['1.2.4']],
+  ]
+  for (const [range, inside, outside] of cases) {
+    test(range, () => {
+      for (const version of inside) {
+        expect(satisfies(version, range)).toBe(true)
+      }
+      for (const version of outside) {
+        expect(satisfies(version, range)).toBe(false)
+      }
+    })
+  }
+
+  test('invalid ranges satisfy nothing', () => {
+    expect(isValidRange('workspace:*')).toBe(false)
+    expect(isValidRange('^1.x.y')).toBe(false)
+    expect(satisfies('1.0.0', 'latest')).toBe(false)
+  })
+
+  test('picks the highest satisfying version', () => {
+    expect(maxSatisfying(['1.0.0', '1.4.0', '2.0.0'], '^1')).toBe('1.4.0')
+    expect(maxSatisfying(['1.0.0'], '^2')).toBeNull()
+  })
+})
+
+describe('satisfies with prereleases', () => {
+  test('only matches prereleases of a version the range mentions', () => {
+    expect(satisfies('1.3.0-beta.1', '^1.3.0-beta.0')).toBe(true)
+    expect(satisfies('1.3.0-beta.1', '^1.2.0')).toBe(false)
+    expect(satisfies('1.4.0-beta.1', '^1.3.0-beta.0')).toBe(false)
+    expect(satisfies('2.0.0-0', '^1.2.0')).toBe(false)
+  })
+
+  test('matches them like any other version with includePrerelease', () => {
+    expect(satisfies('1.3.0-beta.1', '^1.2.0', { includePrerelease: true })).toBe(true)
+    expect(satisfies('1.2.0-beta.1', '^1.2.0', { includePrerelease: true })).toBe(false)
+    expect(satisfies('2.0.0-0', '^1.2.0', { includePrerelease: true })).toBe(false)
+  })
+
+  test('matches the release they precede through getReleaseVersion', () => {
+    expect(getReleaseVersion('1.2.0-beta.0')).toBe('1.2.0')
+    expect(getReleaseVersion('1.2.0')).toBe('1.2.0')
+    expect(satisfies(getReleaseVersion('1.2.0-beta.0'), '^1.2.0')).toBe(true)
+    expect(satisfies(getReleaseVersion('1.3.0-beta.0'), '^1.2.0')).toBe(true)
+    expect(satisfies(getReleaseVersion('2.0.0-rc.0'), '^1.2.0')).toBe(false)
+  })
+})
+
+describe('caretRange and replaceRangeVersion', () => {
+  test('builds the default npm range', () => {
+    expect(caretRange('1.2.3+build')).toBe('^1.2.3')
+    expect(caretRange('2.0.0-rc.1')).toBe('^2.0.0-rc.1')
+  })
+
+  test('keeps the operator of simple ranges', () => {
+    expect(replaceRangeVersion('^1.2.0', '1.3.0')).toBe('^1.3.0')
+    expect(replaceRangeVersion('~1.2', '1.3.0-beta.0')).toBe('~1.3.0-beta.0')
+    expect(replaceRangeVersion('>= 1.0.0', '2.0.0')).toBe('>=2.0.0')
+    expect(replaceRangeVersion('1.2.0', '1.3.0')).toBe('1.3.0')
+  })
+
+  test('leaves complex ranges alone', () => {
+    for (const range of ['^1 || ^2', '1.0 - 2.0', '>=1 <2', '1.x', '*', 'latest']) {
+      expect(replaceRangeVersion(range, '1.3.0')).toBeNull()
+    }
+  })
+})
@@ -0,0 +1,322 @@
+/**
+ * Semantic versions and ranges, following npm's semver: prerelease identifiers of any kind,
+ * build metadata (ignored when ordering), and ranges made of comparators (`>=1.2.0 <2`), `^`, `~`,
+ * x-ranges (`1.2.x`, `1`, `*`), hyphen ranges (`1.2 - 1.4`) and `||` alternatives.
+ *
+ * As with npm, a prerelease version only satisfies a range mentioning a prerelease of the same
+ * major.minor.patch: `1.3.0-beta.1` satisfies `^1.3.0-beta.0` but not `^1.2.0`.
+ */
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  /** Dot-separated identifiers after `-`, numeric ones as numbers */
+  prerelease: (string | number)[]
+  /** Dot-separated identifiers after `+` */
+  build: string[]
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '='
+
+interface Comparator {
+  operator: Operator
+  version: SemVer
+}
+
+const NUMBER = '0|[1-9]\\d*'
+const IDENTIFIER = `(?:${NUMBER}|\\d*[a-zA-Z-][0-9a-zA-Z-]*)`
+const PRERELEASE = `(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?`
+const BUILD = '(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))?'
+const VERSION_PATTERN = new RegExp(`^v?(${NUMBER})\\.(${NUMBER})\\.(${NUMBER})${PRERELEASE}${BUILD}$`)
+/** Version with parts possibly missing or wildcards: `1`, `1.2.x`, `*` */
+const PARTIAL_PATTERN = new RegExp(
+  `^v?(${NUMBER}|[xX*])(?:\\.(${NUMBER}|[xX*])(?:\\.(${NUMBER}|[xX*])${PRERELEASE}${BUILD})?)?$`
+)
+
+function parseIdentifiers(text: string | undefined): (string | number)[] {
+  return text ? text.split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id)) : []
+}
+
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(VERSION_PATTERN)
+  if (!match) {
+    return null
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: parseIdentifiers(match[4]),
+    build: match[5]?.split('.') ?? [],
+  }
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null
+}
+
+/** Version from a partial one (`1.2` is 1.2.0), for names like template branches. */
+export function coerceVersion(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(.*)$/)
+  if (!match) {
+    return null
+  }
+  return parseVersion(`${match[1]}.${match[2] ?? 0}.${match[3] ?? 0}${match[4]}`)
+}
+
+export function formatVersion(version: SemVer, build = false): string {
+  const prerelease = version.prerelease.length > 0 ? `-${version.prerelease.join('.')}` : ''
+  const metadata = build && version.build.length > 0 ? `+${version.build.join('.')}` : ''
+  return `${version.major}.${version.minor}.${version.patch}${prerelease}${metadata}`
+}
+
+/** The release a prerelease precedes (`1.2.0-beta.0` is 1.2.0), the version itself if invalid. */
+export function getReleaseVersion(version: string): string {
+  const parsed = parseVersion(version)
+  return parsed ? formatVersion({ ...parsed, prerelease: [] }) : version
+}
+
+function toSemVer(version: string | SemVer): SemVer {
+  if (typeof version !== 'string') {
+    return version
+  }
+  const parsed = parseVersion(version)
+  if (!parsed) {
+    throw new Error(`Invalid version "${version}"`)
+  }
+  return parsed
+}
+
+/** Numeric identifiers sort before alphanumeric ones, which sort in ASCII order. */
+export function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  if (typeof a === 'number') {
+    return -1
+  }
+  if (typeof b === 'number') {
+    return 1
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/** Negative if `a` is lower than `b`, positive if higher, 0 if equal (build metadata aside). */
+export function compareVersions(a: string | SemVer, b: string | SemVer): number {
+  const x = toSemVer(a)
+  const y = toSemVer(b)
+  const main = x.major - y.major || x.minor - y.minor || x.patch - y.patch
+  if (main !== 0) {
+    return main
+  }
+
+  // A prerelease is lower than its release
+  if (x.prerelease.length === 0 || y.prerelease.length === 0) {
+    return y.prerelease.length - x.prerelease.length
+  }
+  for (let i = 0; i < Math.max(x.prerelease.length, y.prerelease.length); i++) {
+    if (x.prerelease[i] === undefined || y.prerelease[i] === undefined) {
+      return x.prerelease[i] === undefined ? -1 : 1
+    }
+    const comparison = compareIdentifiers(x.prerelease[i], y.prerelease[i])
+    if (comparison !== 0) {
+      return comparison
+    }
+  }
+  return 0
+}
+
+function version(major: number, minor: number, patch: number, prerelease: (string | number)[] = []): SemVer {
+  return { major, minor, patch, prerelease, build: [] }
+}
+
+/** Upper bounds exclude the prereleases of the bound: `<2.0.0-0` rather than `<2.0.0`. */
+function below(major: number, minor: number, patch: number): Comparator {
+  return { operator: '<', version: version(major, minor, patch, [0]) }
+}
+
+interface PartialVersion {
+  major?: number
+  minor?: number
+  patch?: number
+  prerelease: (string | number)[]
+}
+
+function parsePartial(text: string): PartialVersion {
+  const match = text.match(PARTIAL_PATTERN)
+  if (!match) {
+    throw new Error(`Invalid version "${text}" in range`)
+  }
+  const part = (value: string | undefined) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value))
+  const [major, minor, patch] = [part(match[1]), part(match[2]), part(match[3])]
+  // Parts after a wildcard are wildcards too: 1.x.3 is 1.x
+  return {
+    major,
+    minor: major === undefined ? undefined : minor,
+    patch: major === undefined || minor === undefined ? undefined : patch,
+    prerelease: parseIdentifiers(match[4]),
+  }
+}
+
+/** Lowest version of a partial one, `1.2` is 1.2.0. */
+function lowest(p: PartialVersion): SemVer {
+  return version(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.patch === undefined ? [] : p.prerelease)
+}
+
+/** Bound right above every version matching a partial one, `1.2` is <1.3.0-0. */
+function above(p: PartialVersion): Comparator {
+  if (p.minor === undefined) {
+    return below(p.major! + 1, 0, 0)
+  }
+  return below(p.major!, p.minor + 1, 0)
+}
+
+/** Comparators matching what a single primitive (`^1.2`, `>=1`, `1.2.x`...) allows. */
+function desugar(primitive: string): Comparator[] {
+  const match = primitive.match(/^(\^|~>?|<=|>=|<|>|=)?\s*(.*)$/)!
+  const operator = match[1] ?? ''
+  const p = parsePartial(match[2] === '' ? '*' : match[2])
+  const nothing = [below(0, 0, 0)]
+
+  if (p.major === undefined) {
+    // Any version, or none for < and >
+    return operator === '<' || operator === '>' ? nothing : []
+  }
+  const exact = p.patch !== undefined
+
+  switch (operator) {
+    case '^': {
+      const from: Comparator = { operator: '>=', version: lowest(p) }
+      if (p.major > 0 || p.minor === undefined) {
+        return [from, below(p.major + 1, 0, 0)]
+      }
+      if (p.minor > 0 || p.patch === undefined) {
+        return [from, below(0, p.minor + 1, 0)]
+      }
+      return [from, below(0, 0, p.patch + 1)]
+    }
+    case '~':
+    case '~>':
+      return [{ operator: '>=', version: lowest(p) }, above(p)]
+    case '>': {
+      if (exact) {
+        return [{ operator: '>', version: lowest(p) }]
+      }
+      // >1.2 is >=1.3.0
+      const next = p.minor === undefined ? version(p.major + 1, 0, 0) : version(p.major, p.minor + 1, 0)
+      return [{ operator: '>=', version: next }]
+    }
+    case '>=':
+      return [{ operator: '>=', version: lowest(p) }]
+    case '<':
+      return [exact ? { operator: '<', version: lowest(p) } : below(p.major, p.minor ?? 0, 0)]
+    case '<=':
+      return [exact ? { operator: '<=', version: lowest(p) } : above(p)]
+    default:
+      return exact ? [{ operator: '=', version: lowest(p) }] : [{ operator: '>=', version: lowest(p) }, above(p)]
+  }
+}
+
+/**
+ * Parses a range into alternatives (`||`), each a list of comparators all versions must pass.
+ * Throws on invalid ranges.
+ */
+export function parseRange(range: string): Comparator[][] {
+  return range.split('||').map((alternative) => {
+    const text = alternative.trim().replace(/(\^|~>?|<=|>=|<|>|=)\s+/g, '$1')
+
+    const hyphen = text.match(/^(\S+)\s+-\s+(\S+)$/)
+    if (hyphen) {
+      const to = parsePartial(hyphen[2])
+      const upper: Comparator[] =
+        to.major === undefined ? [] : to.patch !== undefined ? [{ operator: '<=', version: lowest(to) }] : [above(to)]
+      return [{ operator: '>=', version: lowest(parsePartial(hyphen[1])) }, ...upper]
+    }
+
+    return text === '' ? [] : text.split(/\s+/).flatMap(desugar)
+  })
+}
+
+export function isValidRange(range: string): boolean {
+  try {
+    parseRange(range)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function test(comparator: Comparator, version: SemVer): boolean {
+  const comparison = compareVersions(version, comparator.version)
+  switch (comparator.operator) {
+    case '<':
+      return comparison < 0
+    case '<=':
+      return comparison <= 0
+    case '>':
+      return comparison > 0
+    case '>=':
+      return comparison >= 0
+    case '=':
+      return comparison === 0
+  }
+}
+
+function testAlternative(comparators: Comparator[], version: SemVer, includePrerelease: boolean): boolean {
+  if (!comparators.every((c) => test(c, version))) {
+    return false
+  }
+  if (version.prerelease.length === 0 || includePrerelease) {
+    return true
+  }
+  // Prereleases need to be opted into, by a bound that is a prerelease of the same version
+  return comparators.some(
+    (c) =>
+      c.version.prerelease.length > 0 &&
+      c.version.major === version.major &&
+      c.version.minor === version.minor &&
+      c.version.patch === version.patch
+  )
+}
+
+/**
+ * Whether `version` is in `range`. Invalid versions and ranges satisfy nothing. With
+ * `includePrerelease`, prereleases are matched like any other version.
+ */
+export function satisfies(version: string | SemVer, range: string, options: { includePrerelease?: boolean } = {}) {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version
+  if (!parsed || !isValidRange(range)) {
+    return false
+  }
+  return parseRange(range).some((comparators) =>
+    testAlternative(comparators, parsed, options.includePrerelease ?? false)
+  )
+}
+
+/** Highest of `versions` in `range`, or null. */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  return (
+    versions
+      .filter((v) => satisfies(v, range))
+      .sort(compareVersions)
+      .at(-1) ?? null
+  )
+}
+
+/** The default npm range for a version, `^1.2.3` (build metadata dropped). */
+export function caretRange(version: string): string {
+  return `^${formatVersion(toSemVer(version))}`
+}
+
+/**
+ * A range pointing to `version` with the operator of `range`, when it is a single `^`, `~`, `>=`,
+ * `=` or exact version (`^1.2.0` with 1.3.0 is `^1.3.0`). Null for any other range.
+ */
+export function replaceRangeVersion(range: string, version: string): string | null {
+  const match = range.trim().match(/^(\^|~|>=|=)?\s*(\S+)$/)
+  if (!match || !PARTIAL_PATTERN.test(match[2]) || /[xX*]/.test(match[2])) {
+    return null
+  }
+  return `${match[1] ?? ''}${formatVersion(toSemVer(version))}`
+}
@@ -0,0 +1,83 @@
+/**
+ * Helpers for running per-repo tasks concurrently while keeping their output readable.
+ */
+
+import type { $ } from 'bun'
+import { exec } from './run.ts'
+
+/** Like `Promise.all(items.map(fn))`, with at most `jobs` calls running at once. Keeps item order. */
+export async function mapConcurrent<T, R>(items: T[], jobs: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(jobs, items.length) }, worker))
+  return results
+}
+
+/** Output of a task, buffered so it can be printed in one block once the task is done. */
+export interface TaskLog {
+  lines: string[]
+  log(message: string): void
+  /** Runs a command through `exec` (see run.ts), quiet and non-throwing, and buffers its output. */
+  exec(command: string[] | string, cwd?: string): Promise<$.ShellOutput>
+}
+
+export function createTaskLog(): TaskLog {
+  const lines: string[] = []
+  return {
+    lines,
+    log(message) {
+      lines.push(message)
+    },
+    async exec(command, cwd) {
+      const result = await exec(command, { cwd, quiet: true, nothrow: true, log: (line) => lines.push(`  ${line}`) })
+      for (const output of [result.stdout, result.stderr]) {
+        lines.push(...output.toString().split('\n').filter((l) => l.trim()).map((l) => `  ${l}`))
+      }
+      return result
+    },
+  }
+}
+
+/**
+ * Short excerpt of a failed command's stderr (or stdout): its error lines, or its last lines. The exit
+ * code when it printed nothing.
+ */
+export function excerpt(result: $.ShellOutput, count = 2): string {
+  const text = result.stderr.toString().trim() || result.stdout.toString().trim()
+  if (!text) {
+    return `exit code ${result.exitCode}`
+  }
+  const lines = text.split('\n').map((l) => l.trim()).filter(Boolean)
+  const errors = lines.filter((l) => /^(fatal|error)\b/i.test(l))
+  const summary = (errors.length > 0 ? errors.slice(0, count) : lines.slice(-count)).join(' | ')
+  return summary.length > 120 ? `${summary.slice(0, 117)}...` : summary
+}
+
+export function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => (r[i] ?? '').length)))
+  const format = (cells: string[]) => cells.map((c, i) => (c ?? '').padEnd(widths[i])).join('  ').trimEnd()
+
+  console.log(format(headers))
+  console.log(format(widths.map((w) => '-'.repeat(w))))
+  for (const row of rows) {
+    console.log(format(row))
+  }
+}
+
+/** Runs `fn` once every previously queued call is done, e.g. to keep prompts from interleaving. */
+export function createLock(): <T>(fn: () => Promise<T> | T) => Promise<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+  return (fn) => {
+    const result = queue.then(fn)
+    queue = result.catch(() => {})
+    return result
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+import { $ } from 'bun'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  type SnapshotDirs,
+  getCurrentBranch,
+  loadSnapshots,
+  restoreSnapshot,
+  switchBranch,
+} from './template-snapshots.ts'
+
+let root: string
+let dirs: SnapshotDirs
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'template-snapshots-'))
+  dirs = { templateDir: join(root, 'template'), snapshotsDir: join(root, 'snapshots') }
+  const git = (...args: string[]) =>
+    $`git -C ${dirs.templateDir} -c user.name=test -c user.email=test@example.com ${args}`.quiet()
+
+  await $`git init --quiet --initial-branch=main ${dirs.templateDir}`.quiet()
+  await Bun.write(join(dirs.templateDir, 'pack.ts'), 'main\n')
+  await Bun.write(join(dirs.templateDir, '.gitignore'), '.env\n')
+  await git('add', '.')
+  await git('commit', '--quiet', '-m', 'init')
+  await git('checkout', '--quiet', '-b', 'feat/x')
+})
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true })
+})
+
+test('saves and restores work from a branch with a slash', async () => {
+  await Bun.write(join(dirs.templateDir, 'pack.ts'), 'changed\n')
+  await Bun.write(join(dirs.templateDir, 'notes.txt'), 'untracked\n')
+
+  await switchBranch(dirs, 'main', false)
+  expect(await Bun.file(join(dirs.templateDir, 'pack.ts')).text()).toBe('main\n')
+
+  const snapshots = await loadSnapshots(dirs.snapshotsDir)
+  expect(snapshots).toHaveLength(1)
+  const [snapshot] = snapshots
+  expect(snapshot.branch).toBe('feat/x')
+  expect(snapshot.name).toStartWith('feat-x-')
+
+  await restoreSnapshot(dirs, snapshot.name, false)
+  expect(await getCurrentBranch(dirs.templateDir)).toBe('feat/x')
+  expect(await Bun.file(join(dirs.templateDir, 'pack.ts')).text()).toBe('changed\n')
+  expect(await Bun.file(join(dirs.templateDir, 'notes.txt')).text()).toBe('untracked\n')
+})
+
+test('keeps ignored files and node_modules when switching without --force', async () => {
+  await Bun.write(join(dirs.templateDir, '.env'), 'SECRET=1\n')
+  await Bun.write(join(dirs.templateDir, 'node_modules', 'pkg', 'index.js'), '\n')
+
+  await switchBranch(dirs, 'main', false)
+  expect(await Bun.file(join(dirs.templateDir, '.env')).text()).toBe('SECRET=1\n')
+  expect(await Bun.file(join(dirs.templateDir, 'node_modules', 'pkg', 'index.js')).exists()).toBe(true)
+})
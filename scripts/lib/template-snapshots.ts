@@ -0,0 +1,176 @@
+/**
+ * Snapshots of pending work in sandstone-template, saved before `template` switches branches and
+ * restored with `template --restore`.
+ *
+ * A snapshot is a directory named after the branch and time, holding `snapshot.json`, the tracked
+ * changes in `changes.patch` and the untracked files in `files/`.
+ */
+
+import { $ } from 'bun'
+import { readdir } from 'fs/promises'
+import { join } from 'path'
+import { copy, fileExists, writeFile, writeJson } from './fs.ts'
+import { exec } from './run.ts'
+
+export interface Snapshot {
+  name: string
+  branch: string | null
+  commit: string
+  createdAt: string
+  /** Tracked changes are in `changes.patch`, untracked files are copied in `files/` */
+  hasChanges: boolean
+  untracked: string[]
+}
+
+/** The template checkout, and the directory its snapshots are kept in */
+export interface SnapshotDirs {
+  templateDir: string
+  snapshotsDir: string
+}
+
+export async function getCurrentBranch(templateDir: string): Promise<string | null> {
+  const result = await $`git -C ${templateDir} branch --show-current`.quiet().nothrow()
+  if (result.exitCode === 0) {
+    return result.stdout.toString().trim()
+  }
+  return null
+}
+
+/** Uncommitted changes to tracked files, and untracked files (ignored ones and node_modules excluded). */
+async function getPendingWork(templateDir: string): Promise<{ patch: string; untracked: string[] }> {
+  const diff = await $`git -C ${templateDir} diff --binary HEAD`.quiet().nothrow()
+  const others = await $`git -C ${templateDir} ls-files --others --exclude-standard -z`.quiet().nothrow()
+  return {
+    patch: diff.stdout.toString(),
+    untracked: others.stdout
+      .toString()
+      .split('\0')
+      .filter((f) => f && !f.split('/').includes('node_modules')),
+  }
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/\.\d+Z$/, '').replace(/[-:]/g, '').replace('T', '-')
+}
+
+/** Snapshot name for a branch (or commit): a single directory name, `feat/x` becomes `feat-x`. */
+function getSnapshotName(ref: string): string {
+  return `${ref.replace(/[\\/:*?"<>|\s]+/g, '-')}-${timestamp()}`
+}
+
+/** Saves pending work into a new snapshot, returning its name, or null if there was nothing to save. */
+export async function saveSnapshot({ templateDir, snapshotsDir }: SnapshotDirs): Promise<string | null> {
+  const { patch, untracked } = await getPendingWork(templateDir)
+  if (!patch && untracked.length === 0) {
+    return null
+  }
+
+  const branch = await getCurrentBranch(templateDir)
+  const commit = (await $`git -C ${templateDir} rev-parse HEAD`.quiet()).stdout.toString().trim()
+  const name = getSnapshotName(branch || commit.slice(0, 7))
+  const dir = join(snapshotsDir, name)
+
+  if (patch) {
+    await writeFile(join(dir, 'changes.patch'), patch)
+  }
+  for (const file of untracked) {
+    await copy(join(templateDir, file), join(dir, 'files', file))
+  }
+
+  const snapshot: Snapshot = {
+    name,
+    branch: branch || null,
+    commit,
+    createdAt: new Date().toISOString(),
+    hasChanges: patch !== '',
+    untracked,
+  }
+  await writeJson(join(dir, 'snapshot.json'), snapshot)
+
+  return name
+}
+
+export async function loadSnapshots(snapshotsDir: string): Promise<Snapshot[]> {
+  if (!(await fileExists(snapshotsDir))) {
+    return []
+  }
+  const snapshots: Snapshot[] = []
+  for (const entry of await readdir(snapshotsDir)) {
+    const file = Bun.file(join(snapshotsDir, entry, 'snapshot.json'))
+    if (await file.exists()) {
+      snapshots.push(await file.json())
+    }
+  }
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Checks out a branch, first saving pending work into a snapshot unless `force` is set.
+ * Untracked files are cleaned. Ignored files (`.env`, build outputs) and node_modules aren't in
+ * snapshots, so they are left alone.
+ */
+export async function switchBranch(dirs: SnapshotDirs, targetBranch: string, force: boolean) {
+  const { templateDir } = dirs
+  if (force) {
+    console.log('Discarding local changes (--force)')
+  } else {
+    process.stdout.write('Saving local changes... ')
+    const name = await saveSnapshot(dirs)
+    console.log(name ? `saved as snapshot ${name}` : 'nothing to save')
+  }
+
+  // Clean untracked files and reset tracked files before switching
+  process.stdout.write('Cleaning working directory... ')
+  await exec(['git', '-C', templateDir, 'reset', '--hard'], { quiet: true, nothrow: true })
+  const clean = ['git', '-C', templateDir, 'clean', '-fd', '--exclude', 'node_modules']
+  await exec(clean, { quiet: true, nothrow: true })
+  console.log('done')
+
+  process.stdout.write(`Checking out ${targetBranch}... `)
+  const result = await exec(['git', '-C', templateDir, 'checkout', targetBranch], { quiet: true, nothrow: true })
+  if (result.exitCode !== 0) {
+    console.log('failed\n')
+    throw new Error(result.stderr.toString().trim())
+  }
+  console.log('done')
+}
+
+export async function restoreSnapshot(dirs: SnapshotDirs, name: string, force: boolean) {
+  const { templateDir, snapshotsDir } = dirs
+  const snapshot = (await loadSnapshots(snapshotsDir)).find((s) => s.name === name)
+  if (!snapshot) {
+    throw new Error(`No snapshot named ${name}. Use --list-snapshots to see them.`)
+  }
+  const dir = join(snapshotsDir, name)
+
+  const { patch, untracked } = await getPendingWork(templateDir)
+  if ((await getCurrentBranch(templateDir)) !== snapshot.branch || patch || untracked.length > 0) {
+    await switchBranch(dirs, snapshot.branch ?? snapshot.commit, force)
+  }
+
+  if (snapshot.hasChanges) {
+    process.stdout.write('Applying changes... ')
+    const patchPath = join(dir, 'changes.patch')
+    const apply = ['git', '-C', templateDir, 'apply']
+    let result = await exec([...apply, '--binary', patchPath], { quiet: true, nothrow: true })
+    if (result.exitCode !== 0) {
+      // The branch moved on since the snapshot: merge instead
+      result = await exec([...apply, '--3way', '--binary', patchPath], { quiet: true, nothrow: true })
+    }
+    if (result.exitCode !== 0) {
+      console.log('failed\n')
+      throw new Error(`${result.stderr.toString().trim()}\n\nThe snapshot is kept in ${dir}`)
+    }
+    console.log('done')
+  }
+
+  if (snapshot.untracked.length > 0) {
+    process.stdout.write(`Restoring ${snapshot.untracked.length} untracked files... `)
+    for (const file of snapshot.untracked) {
+      await copy(join(dir, 'files', file), join(templateDir, file))
+    }
+    console.log('done')
+  }
+
+  console.log(`Restored snapshot ${name} (kept in ${dir})`)
+}
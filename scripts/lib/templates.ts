@@ -0,0 +1,55 @@
+/**
+ * Template branches (`pack-<version>`, `library-<version>`) of sandstone-template, picked by
+ * version with semver.ts. Branch versions may be partial (`pack-1.2` is 1.2.0).
+ */
+
+import { $ } from 'bun'
+import { type SemVer, coerceVersion, compareVersions, satisfies } from './semver.ts'
+
+export type TemplateType = 'pack' | 'library'
+
+/** Branches of the template repo's origin, without the `origin/` prefix. */
+export async function getRemoteBranches(templateDir: string): Promise<string[]> {
+  const result = await $`git -C ${templateDir} branch -r`.quiet().nothrow()
+  if (result.exitCode !== 0) {
+    return []
+  }
+  return result.stdout
+    .toString()
+    .split('\n')
+    .map((b) => b.trim())
+    .filter((b) => b && !b.includes('->'))
+    .map((b) => b.replace('origin/', ''))
+}
+
+function getBranchVersion(branch: string, prefix: TemplateType): SemVer | null {
+  return coerceVersion(branch.slice(prefix.length + 1))
+}
+
+/** Branches of a template type, latest version first. Branches without a version come last. */
+export function sortBranches(branches: string[], prefix: TemplateType): string[] {
+  return branches
+    .filter((b) => b.startsWith(`${prefix}-`))
+    .sort((a, b) => {
+      const versionA = getBranchVersion(a, prefix)
+      const versionB = getBranchVersion(b, prefix)
+      if (!versionA || !versionB) {
+        return versionA ? -1 : versionB ? 1 : a.localeCompare(b)
+      }
+      return compareVersions(versionB, versionA)
+    })
+}
+
+/** Latest branch of a template type, in `range` when given (prerelease templates included). */
+export function findLatestBranch(branches: string[], prefix: TemplateType, range?: string): string | null {
+  const sorted = sortBranches(branches, prefix)
+  if (!range) {
+    return sorted[0] ?? null
+  }
+  return (
+    sorted.find((b) => {
+      const version = getBranchVersion(b, prefix)
+      return version !== null && satisfies(version, range, { includePrerelease: true })
+    }) ?? null
+  )
+}
@@ -0,0 +1,140 @@
+/**
+ * Keeps `.gitignore` and `sandstone.code-workspace` in sync with the manifest, merging with what
+ * users added to them rather than overwriting.
+ *
+ * - `.gitignore`: the managed lines live in a marked block, everything outside it is kept
+ *   (minus lines duplicating managed ones, left over from before the block existed).
+ * - `sandstone.code-workspace`: managed folders are marked by their name, the short name of the
+ *   repo or test project they point at (`work` for the root). Other folders (a repo folder under
+ *   another name included), settings, extensions... are kept. The file is read as JSONC, the way
+ *   VS Code writes it, but comments are lost when the managed folders change and it is rewritten.
+ */
+
+import { join } from 'path'
+import { writeFile } from './fs.ts'
+import { type Manifest, type RepoEntry, rootDir } from './manifest.ts'
+
+const gitignorePath = join(rootDir, '.gitignore')
+const workspacePath = join(rootDir, 'sandstone.code-workspace')
+
+const BLOCK_START = '# >>> managed by scripts/setup.ts, edit outside this block >>>'
+const BLOCK_END = '# <<< managed by scripts/setup.ts <<<'
+const BASE_LINES = ['manifest.contribute.json', '.work/', 'projects/', '', 'node_modules/']
+const ROOT_FOLDER: WorkspaceFolder = { name: 'work', path: './' }
+
+interface WorkspaceFolder {
+  name?: string
+  /** Unset for folders given by `uri` */
+  path?: string
+}
+
+interface WorkspaceFile {
+  folders: WorkspaceFolder[]
+  settings?: Record<string, unknown>
+  [key: string]: unknown
+}
+
+export interface SyncResult {
+  path: string
+  changed: boolean
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\.\//, '').replace(/\/+$/, '')
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  const start = lines.findIndex((l) => l.trim() !== '')
+  if (start === -1) {
+    return []
+  }
+  const end = lines.length - [...lines].reverse().findIndex((l) => l.trim() !== '')
+  return lines.slice(start, end)
+}
+
+function mergeGitignore(content: string, manifest: Manifest, repos: RepoEntry[]): string {
+  const managed = [...BASE_LINES, '', ...repos.filter((r) => !r.project).map((r) => `${r.folderName}/`)]
+
+  // Lines of the manifest's repos are managed, even for skipped repos
+  const known = new Set([
+    ...BASE_LINES.filter(Boolean),
+    ...manifest.repos.filter((r) => !r.project).map((r) => `${r.folderName}/`),
+  ])
+
+  const lines = content.split('\n')
+  const start = lines.indexOf(BLOCK_START)
+  const end = lines.indexOf(BLOCK_END)
+  if (start !== -1 && end > start) {
+    lines.splice(start, end - start + 1)
+  }
+
+  const userLines = trimBlankLines(lines.filter((l) => !known.has(l.trim())))
+  const result = [BLOCK_START, ...managed, BLOCK_END]
+  if (userLines.length > 0) {
+    result.push('', ...userLines)
+  }
+  return result.join('\n') + '\n'
+}
+
+/** Whether a folder is one `mergeWorkspace` adds, for a repo of the manifest (skipped ones included). */
+function isManagedFolder(folder: WorkspaceFolder, manifest: Manifest): boolean {
+  if (folder.path === undefined) {
+    return false
+  }
+  const path = normalizePath(folder.path)
+  if (path === '') {
+    return folder.name === ROOT_FOLDER.name
+  }
+  return manifest.repos.some((r) => normalizePath(r.folderName) === path && folder.name === r.shortName)
+}
+
+function mergeWorkspace(workspace: WorkspaceFile | null, manifest: Manifest, repos: RepoEntry[]): WorkspaceFile {
+  const merged: WorkspaceFile = structuredClone(workspace) ?? { folders: [], settings: {} }
+  const userFolders = (merged.folders ?? []).filter((f) => !isManagedFolder(f, manifest))
+
+  merged.folders = [ROOT_FOLDER, ...repos.map((r) => ({ name: r.shortName, path: r.folderName })), ...userFolders]
+  merged.settings ??= {}
+  return merged
+}
+
+async function readText(path: string): Promise<string | null> {
+  const file = Bun.file(path)
+  return (await file.exists()) ? await file.text() : null
+}
+
+/**
+ * Merges the managed entries for `repos` (the included repos and test projects) into `.gitignore`.
+ * With `write` unset, only reports whether the file is out of sync.
+ */
+export async function syncGitignore(manifest: Manifest, repos: RepoEntry[], write = true): Promise<SyncResult> {
+  const current = await readText(gitignorePath)
+  const merged = mergeGitignore(current ?? '', manifest, repos)
+  if (write && merged !== current) {
+    await writeFile(gitignorePath, merged)
+  }
+  return { path: gitignorePath, changed: merged !== current }
+}
+
+/**
+ * Merges the managed folders for `repos` into `sandstone.code-workspace`.
+ * With `write` unset, only reports whether the file is out of sync.
+ */
+export async function syncWorkspaceFile(manifest: Manifest, repos: RepoEntry[], write = true): Promise<SyncResult> {
+  const current = await readText(workspacePath)
+  let workspace: WorkspaceFile | null = null
+  if (current !== null) {
+    try {
+      workspace = Bun.JSONC.parse(current) as WorkspaceFile
+    } catch (err) {
+      throw new Error(`sandstone.code-workspace is not valid JSON, leaving it as is: ${(err as Error).message}`)
+    }
+  }
+
+  // Compared by content, so that comments and formatting alone don't get the file rewritten
+  const merged = mergeWorkspace(workspace, manifest, repos)
+  const changed = !Bun.deepEquals(merged, workspace)
+  if (write && changed) {
+    await writeFile(workspacePath, JSON.stringify(merged, null, '\t') + '\n')
+  }
+  return { path: workspacePath, changed }
+}
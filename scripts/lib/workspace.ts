@@ -0,0 +1,192 @@
+/**
+ * Scans the package.json files of every repo checked out in the workspace (including nested
+ * workspace packages) to find which packages exist locally and which repos depend on them.
+ *
+ * Consumers declared in manifest.json only count the dependency in their declared field (peer
+ * ranges aside, they are still checked by lib/compat.ts). Other consumers count every field.
+ */
+
+import { join, relative } from 'path'
+import { fileExists } from './fs.ts'
+import { type ConsumerEntry, type Manifest, type RepoEntry, getPackages } from './manifest.ts'
+import { type DependencyField, type PackageJson, dependencyFields, readPackageJson } from './package-json.ts'
+
+export interface LocalPackage {
+  name: string
+  version?: string
+  repo: RepoEntry
+  /** Absolute package directory */
+  dir: string
+  build?: string
+  /** Absolute build output directory, when known from the manifest */
+  output?: string
+  /** Consumers declared in the manifest */
+  consumers: ConsumerEntry[]
+}
+
+export interface ConsumerDependency {
+  pkg: LocalPackage
+  field: DependencyField
+  specifier: string
+}
+
+export interface Consumer {
+  repo: RepoEntry
+  /** Absolute directory of the consuming package.json */
+  dir: string
+  /** Package directory relative to the repo, `.` for the repo root */
+  path: string
+  json: PackageJson
+  /** Dependencies on local packages from other repos */
+  dependencies: ConsumerDependency[]
+}
+
+/** A consumer declared in the manifest whose package.json doesn't list the package in its field */
+export interface MissingDependency {
+  pkg: LocalPackage
+  consumer: ConsumerEntry
+}
+
+export interface Workspace {
+  packages: LocalPackage[]
+  consumers: Consumer[]
+  missing: MissingDependency[]
+}
+
+function getWorkspacePatterns(pkg: PackageJson): string[] {
+  if (Array.isArray(pkg.workspaces)) {
+    return pkg.workspaces
+  }
+  return pkg.workspaces?.packages ?? []
+}
+
+/** Root package directory of the repo, followed by its workspace packages. */
+async function findPackageDirs(repo: RepoEntry, root: PackageJson): Promise<string[]> {
+  const dirs = [repo.dir]
+
+  for (const pattern of getWorkspacePatterns(root)) {
+    if (pattern.startsWith('!')) {
+      continue
+    }
+    const glob = new Bun.Glob(`${pattern.replace(/\/$/, '')}/package.json`)
+    for await (const file of glob.scan({ cwd: repo.dir, onlyFiles: true })) {
+      if (!file.split(/[\\/]/).includes('node_modules')) {
+        dirs.push(join(repo.dir, file, '..'))
+      }
+    }
+  }
+
+  return dirs
+}
+
+export async function scanWorkspace(manifest: Manifest): Promise<Workspace> {
+  const declared = getPackages(manifest)
+  const found: { repo: RepoEntry; dir: string; path: string; json: PackageJson }[] = []
+
+  for (const repo of manifest.repos) {
+    if (!(await fileExists(join(repo.dir, 'package.json')))) {
+      continue
+    }
+
+    const root = await readPackageJson(repo.dir)
+    const dirs = await findPackageDirs(repo, root)
+    for (const pkg of repo.packages) {
+      dirs.push(pkg.dir)
+    }
+
+    for (const dir of new Set(dirs)) {
+      const path = relative(repo.dir, dir) || '.'
+      if (dir === repo.dir) {
+        found.push({ repo, dir, path, json: root })
+      } else if (await fileExists(join(dir, 'package.json'))) {
+        found.push({ repo, dir, path, json: await readPackageJson(dir) })
+      }
+    }
+  }
+
+  const packages: LocalPackage[] = []
+  for (const { repo, dir, json } of found) {
+    if (!json.name || packages.some((p) => p.name === json.name)) {
+      continue
+    }
+    const entry = declared.find((p) => p.dir === dir)
+    packages.push({
+      name: json.name,
+      version: json.version,
+      repo,
+      dir,
+      build: entry ? entry.build : json.scripts?.build ? 'bun run build' : undefined,
+      output: entry?.output,
+      consumers: entry?.consumers ?? [],
+    })
+  }
+
+  // Linked into the declared field only, when the consumer is declared
+  const isDeclaredField = (pkg: LocalPackage, repo: RepoEntry, path: string, field: DependencyField) => {
+    const declared = pkg.consumers.find((c) => c.repo === repo.shortName && c.path === path)
+    return !declared || declared.field === field || field === 'peerDependencies'
+  }
+
+  const consumers: Consumer[] = []
+  for (const { repo, dir, path, json } of found) {
+    const dependencies: ConsumerDependency[] = []
+    for (const field of dependencyFields) {
+      for (const [name, specifier] of Object.entries(json[field] ?? {})) {
+        const pkg = packages.find((p) => p.name === name)
+        // Packages from the same repo are the workspace's business, not ours
+        if (pkg && pkg.repo !== repo && isDeclaredField(pkg, repo, path, field)) {
+          dependencies.push({ pkg, field, specifier })
+        }
+      }
+    }
+    if (dependencies.length > 0) {
+      consumers.push({ repo, dir, path, json, dependencies })
+    }
+  }
+
+  // Declared consumers that are checked out, but don't have the package in their field
+  const missing: MissingDependency[] = []
+  for (const pkg of packages) {
+    for (const consumer of pkg.consumers) {
+      const entry = found.find((f) => f.repo.shortName === consumer.repo && f.path === consumer.path)
+      if (entry && entry.json[consumer.field]?.[pkg.name] === undefined) {
+        missing.push({ pkg, consumer })
+      }
+    }
+  }
+
+  return { packages, consumers, missing }
+}
+
+/**
+ * Groups `repos` into levels where every repo only depends on repos of earlier levels, e.g.
+ * `[[sandstone], [cli], [template]]`. Repos caught in a dependency cycle share the last level.
+ */
+export function getRepoLevels(workspace: Workspace, repos: RepoEntry[]): RepoEntry[][] {
+  const dependsOn = new Map<RepoEntry, Set<RepoEntry>>(repos.map((r) => [r, new Set()]))
+  for (const consumer of workspace.consumers) {
+    for (const { pkg } of consumer.dependencies) {
+      if (dependsOn.has(consumer.repo) && dependsOn.has(pkg.repo)) {
+        dependsOn.get(consumer.repo)!.add(pkg.repo)
+      }
+    }
+  }
+
+  const levels: RepoEntry[][] = []
+  const done = new Set<RepoEntry>()
+  let remaining = [...repos]
+
+  while (remaining.length > 0) {
+    let level = remaining.filter((r) => [...dependsOn.get(r)!].every((d) => done.has(d)))
+    if (level.length === 0) {
+      level = remaining
+    }
+    levels.push(level)
+    for (const repo of level) {
+      done.add(repo)
+    }
+    remaining = remaining.filter((r) => !done.has(r))
+  }
+
+  return levels
+}
@@ -1,238 +1,661 @@
 /**
  * Link/unlink local packages for development using bun link.
  *
+ * Every package.json in the workspace (including nested workspace packages) is scanned, and any
+ * dependency on a package that exists locally in another repo gets linked.
+ *
  * Usage:
- *   bun scripts/link.ts link    - Link local packages for development
- *   bun scripts/link.ts unlink  - Restore npm versions (fetches latest from registry)
+ *   sandstone-work link         - Link local packages for development
+ *   sandstone-work link --pack  - Install them from `bun pm pack` tarballs instead, as they will be published
+ *   sandstone-work unlink       - Restore the versions recorded by link
+ *
+ * Options:
+ *   --into <repos>       Only link into/unlink from these repos (comma-separated short names)
+ *   --package <names>    Only link/unlink these packages (comma-separated package names)
+ *   --registry <url>     Registry used when no version was recorded (default: $npm_config_registry or npmjs)
+ *   --force-build        Rebuild linked packages even if their sources didn't change
+ *   --no-build           Don't build linked packages
+ *   --pack               Install tarballs of the packages instead of symlinks, and check their exports
+ *   --ignore-compat      Link even if local versions are outside of the ranges they replace
+ *   --resume             Finish an interrupted link/unlink from its journal
+ *   --rollback           Undo the steps an interrupted link/unlink already applied
+ *
+ * All steps are planned before anything changes and journaled while they run (see
+ * lib/link-journal.ts): if one fails, the workspace is rolled back to how it was.
+ *
+ * `--pack` catches what symlinks hide: files missing from `files`, wrong `exports`, dependencies
+ * only present in the monorepo. The tarballs go to `.work/packs/`, and each installed package is
+ * checked (see lib/package-exports.ts).
+ *
+ * Before anything changes, the local versions are checked against the ranges they replace and the
+ * peer ranges of the other linked packages (see lib/compat.ts, or `sandstone-work check`). Linking
+ * is refused on a mismatch unless `--ignore-compat` is passed.
  */
 
-import { $ } from 'bun'
-import { access } from 'fs/promises'
-import { join } from 'path'
-
-const rootDir = join(import.meta.dir, '..')
-
-interface PackageJson {
-  name: string
-  dependencies?: Record<string, string>
-  devDependencies?: Record<string, string>
-  peerDependencies?: Record<string, string>
-  [key: string]: unknown
+import { readdir } from 'fs/promises'
+import { dirname, join, relative, resolve } from 'path'
+import { checkBuild, fingerprintPackage, saveFingerprint } from './lib/build-cache.ts'
+import { type CommandSpec, type OptionSpec, type ParsedArgs, runCli } from './lib/cli.ts'
+import { type CompatCheck, checkCompat, printCompatMatrix } from './lib/compat.ts'
+import { fileExists, makeDir, removeFile } from './lib/fs.ts'
+import {
+  type JournalStep,
+  type LinkJournal,
+  backupFiles,
+  backupInstalls,
+  backupRegistration,
+  createJournal,
+  describeStep,
+  loadJournal,
+  rollback,
+  runJournal,
+} from './lib/link-journal.ts'
+import {
+  type LinkState,
+  findLink,
+  linkStatePath,
+  loadLinkState,
+  recordLink,
+  removeLink,
+  saveLinkState,
+} from './lib/link-state.ts'
+import { loadManifest, rootDir, stateDir } from './lib/manifest.ts'
+import { type ExportsProblem, checkExports } from './lib/package-exports.ts'
+import { type DependencyField, isLinked, isPacked, readPackageJson, writePackageJson } from './lib/package-json.ts'
+import { exec, globalOptions } from './lib/run.ts'
+import { caretRange } from './lib/semver.ts'
+import { type Consumer, type ConsumerDependency, type LocalPackage, type Workspace, scanWorkspace } from './lib/workspace.ts'
+
+const DEFAULT_REGISTRY = 'https://registry.npmjs.org'
+const packsDir = join(stateDir, 'packs')
+
+interface Options {
+  into?: string[]
+  packages?: string[]
+  registry: string
+  build: 'auto' | 'force' | 'skip'
+  pack: boolean
+  ignoreCompat: boolean
 }
 
-async function readPackageJson(dir: string): Promise<PackageJson> {
-  return await Bun.file(join(dir, 'package.json')).json()
-}
-
-async function writePackageJson(dir: string, pkg: PackageJson): Promise<void> {
-  await Bun.write(join(dir, 'package.json'), JSON.stringify(pkg, null, 2) + '\n')
-}
-
-async function getLatestNpmVersion(packageName: string): Promise<string> {
-  const response = await fetch(`https://registry.npmjs.org/${packageName}/latest`)
+async function getLatestNpmVersion(registry: string, packageName: string): Promise<string> {
+  const response = await fetch(`${registry}/${packageName}/latest`)
   if (!response.ok) {
     throw new Error(`Failed to fetch latest version for ${packageName}: ${response.statusText}`)
   }
   const data = await response.json() as { version: string }
-  return `^${data.version}`
+  return caretRange(data.version)
+}
+
+function getOptions(args: ParsedArgs): Options {
+  let build: Options['build'] = 'auto'
+  if (args.flag('force-build')) {
+    build = 'force'
+  } else if (args.flag('no-build')) {
+    build = 'skip'
+  }
+  return {
+    into: args.list('into'),
+    packages: args.list('package'),
+    registry: (args.string('registry') ?? process.env.npm_config_registry ?? DEFAULT_REGISTRY).replace(/\/+$/, ''),
+    build,
+    pack: args.flag('pack'),
+    ignoreCompat: args.flag('ignore-compat'),
+  }
 }
 
-async function directoryExists(path: string): Promise<boolean> {
-  try {
-    await access(path)
-    return true
-  } catch {
-    return false
+async function loadWorkspace(options: Options): Promise<Workspace> {
+  const manifest = await loadManifest()
+
+  for (const name of options.into ?? []) {
+    if (!manifest.repos.some((r) => r.shortName === name)) {
+      throw new Error(`Unknown repo "${name}" (expected one of: ${manifest.repos.map((r) => r.shortName).join(', ')})`)
+    }
+  }
+
+  const workspace = await scanWorkspace(manifest)
+
+  for (const name of options.packages ?? []) {
+    if (!workspace.packages.some((p) => p.name === name)) {
+      throw new Error(`Package "${name}" was not found in the workspace`)
+    }
   }
+
+  return workspace
 }
 
-function isLinked(version: string | undefined): boolean {
-  return version?.startsWith('link:') || version?.startsWith('file:') || false
+function matchesFilters(consumer: Consumer, dependency: ConsumerDependency, options: Options): boolean {
+  return (
+    (!options.into || options.into.includes(consumer.repo.shortName)) &&
+    (!options.packages || options.packages.includes(dependency.pkg.name))
+  )
 }
 
-async function link() {
-  const sandstoneDir = join(rootDir, 'sandstone')
-  const cliDir = join(rootDir, 'sandstone-cli')
-  const templateDir = join(rootDir, 'sandstone-template')
-  const hotHookDir = join(rootDir, 'hot-hook', 'packages', 'hot_hook')
+function describeConsumer(consumer: Consumer): string {
+  return consumer.path === '.' ? consumer.repo.folderName : join(consumer.repo.folderName, consumer.path)
+}
 
-  // Check if already linked
-  const cliPkg = await readPackageJson(cliDir)
-  const templatePkg = await readPackageJson(templateDir)
+function uniquePackages(dependencies: ConsumerDependency[]): LocalPackage[] {
+  return [...new Set(dependencies.map((d) => d.pkg))]
+}
 
-  const cliSandstoneLinked = isLinked(cliPkg.devDependencies?.sandstone)
-  const cliHotHookLinked = isLinked(cliPkg.dependencies?.['@sandstone-mc/hot-hook'])
-  const cliLinked = cliSandstoneLinked && cliHotHookLinked
-  const templateLinked =
-    isLinked(templatePkg.dependencies?.sandstone) &&
-    isLinked(templatePkg.devDependencies?.['sandstone-cli'])
+/** Where installing a consumer writes node_modules and bun.lock: its directory, and its repo's for workspaces. */
+function getInstallDirs(workspace: Workspace, dir: string): string[] {
+  const repoDir = workspace.consumers.find((c) => c.dir === dir)?.repo.dir ?? dir
+  return [...new Set([dir, repoDir])]
+}
 
-  if (cliLinked && templateLinked) {
-    console.log('Packages are already linked.')
+/** Saves what a step changing a consumer's dependencies may touch, see link-journal.ts. */
+async function backupConsumer(journal: LinkJournal, workspace: Workspace, dir: string) {
+  const installDirs = getInstallDirs(workspace, dir)
+  await backupFiles(journal, [join(dir, 'package.json'), ...installDirs.map((d) => join(d, 'bun.lock')), linkStatePath])
+  await backupInstalls(journal, installDirs)
+}
+
+/** Tarball of a package in the packs directory of a `link --pack` run. */
+function getTarballPath(runDir: string, pkg: LocalPackage): string {
+  return join(runDir, `${pkg.name.replace(/^@/, '').replace(/\//g, '-')}-${pkg.version ?? '0.0.0'}.tgz`)
+}
+
+/**
+ * Deletes the tarballs of previous `link --pack` runs that no consumer points to anymore. Every run
+ * packs into a new directory: bun keeps installing the old content of a tarball whose path didn't change.
+ */
+async function cleanPacks(keep: string[] = []) {
+  if (!(await fileExists(packsDir))) {
+    return
+  }
+  const used = new Set(keep)
+  const workspace = await scanWorkspace(await loadManifest())
+  for (const consumer of workspace.consumers) {
+    for (const { specifier } of consumer.dependencies) {
+      if (isPacked(specifier)) {
+        used.add(dirname(resolve(consumer.dir, specifier.slice('file:'.length))))
+      }
+    }
+  }
+  const runs = await readdir(packsDir)
+  if (!runs.some((name) => used.has(join(packsDir, name)))) {
+    await removeFile(packsDir)
     return
   }
+  for (const name of runs) {
+    if (!used.has(join(packsDir, name))) {
+      await removeFile(join(packsDir, name))
+    }
+  }
+}
 
-  console.log('Linking local packages for development...\n')
+/** Replaced specifiers worth recording: the ones that were already links say nothing about npm. */
+function recordOriginals(
+  state: LinkState,
+  step: { repo: string; path: string },
+  name: string,
+  originals: Partial<Record<DependencyField, string>>
+) {
+  for (const [field, original] of Object.entries(originals)) {
+    if (!isLinked(original)) {
+      recordLink(state, { repo: step.repo, path: step.path, field: field as DependencyField, name, original })
+    }
+  }
+}
 
-  // Step 1: Build sandstone (only if dist doesn't exist)
-  if (await directoryExists(join(sandstoneDir, 'dist'))) {
-    console.log('Sandstone already built, skipping...\n')
-  } else {
-    console.log('Building sandstone...')
-    await $`bun run build`.cwd(sandstoneDir)
-    console.log('Sandstone built\n')
+function describeConsumerDir(workspace: Workspace, dir: string): string {
+  const consumer = workspace.consumers.find((c) => c.dir === dir)
+  return consumer ? describeConsumer(consumer) : relative(rootDir, dir)
+}
+
+async function applyStep(step: JournalStep, journal: LinkJournal, workspace: Workspace) {
+  const registryArgs = journal.registry ? ['--registry', journal.registry] : []
+
+  switch (step.type) {
+    case 'build': {
+      console.log(`Building ${step.name} (${step.reason})...`)
+      await exec(step.command, { cwd: step.dir })
+      // Fingerprint again, the build may have touched sources (generated files)
+      const pkg = workspace.packages.find((p) => p.name === step.name)
+      if (pkg) {
+        await saveFingerprint(pkg, await fingerprintPackage(pkg))
+      }
+      console.log(`${step.name} built\n`)
+      break
+    }
+    case 'register':
+      await backupRegistration(journal, step.name)
+      console.log(`Registering ${step.name}...`)
+      await exec(['bun', 'link'], { cwd: step.dir })
+      break
+    case 'unregister':
+      await backupRegistration(journal, step.name)
+      console.log(`Unregistering ${step.name}...`)
+      await exec(['bun', 'unlink'], { cwd: step.dir, nothrow: true })
+      break
+    case 'pack':
+      console.log(`Packing ${step.name}...`)
+      await makeDir(dirname(step.tarball))
+      await exec(['bun', 'pm', 'pack', '--filename', step.tarball, '--quiet'], { cwd: step.dir, quiet: true })
+      break
+    case 'link': {
+      await backupConsumer(journal, workspace, step.dir)
+      const state = await loadLinkState()
+      recordOriginals(state, step, step.name, step.originals)
+      await saveLinkState(state)
+      console.log(`\nLinking ${step.name} into ${describeConsumerDir(workspace, step.dir)}...`)
+      await exec(['bun', 'link', step.name, '--save'], { cwd: step.dir })
+      break
+    }
+    case 'install': {
+      await backupConsumer(journal, workspace, step.dir)
+      console.log(`\nInstalling tarballs into ${describeConsumerDir(workspace, step.dir)}...`)
+      const json = await readPackageJson(step.dir)
+      const state = await loadLinkState()
+      for (const { name, tarball, originals } of step.packages) {
+        console.log(`  ${name}: ${relative(rootDir, tarball)}`)
+        recordOriginals(state, step, name, originals)
+        for (const field of Object.keys(originals) as DependencyField[]) {
+          json[field] = { ...json[field], [name]: `file:${relative(step.dir, tarball)}` }
+        }
+      }
+      await writePackageJson(step.dir, json)
+      await saveLinkState(state)
+      await exec(['bun', 'install', ...registryArgs], { cwd: step.dir })
+      break
+    }
+    case 'restore': {
+      await backupConsumer(journal, workspace, step.dir)
+      console.log(`\nRestoring ${describeConsumerDir(workspace, step.dir)}...`)
+      const json = await readPackageJson(step.dir)
+      const state = await loadLinkState()
+      for (const { field, name, version } of step.versions) {
+        console.log(`  ${name}: ${version}`)
+        json[field] = { ...json[field], [name]: version }
+        removeLink(state, { repo: step.repo, path: step.path, field, name })
+      }
+      await writePackageJson(step.dir, json)
+      await saveLinkState(state)
+      await exec(['bun', 'install', ...registryArgs], { cwd: step.dir })
+      break
+    }
   }
+}
 
-  // Step 2: Build sandstone-cli (only if lib doesn't exist)
-  if (await directoryExists(join(cliDir, 'lib'))) {
-    console.log('sandstone-cli already built, skipping...\n')
-  } else {
-    console.log('Building sandstone-cli...')
-    await $`bun run build`.cwd(cliDir)
-    console.log('sandstone-cli built\n')
+/** Refuses to start over an interrupted journal, which would lose the original state it recorded. */
+async function checkNoJournal() {
+  const journal = await loadJournal()
+  if (journal) {
+    throw new Error(
+      `A ${journal.operation} started ${new Date(journal.startedAt).toLocaleString()} was interrupted ` +
+        `(${journal.done}/${journal.steps.length} steps done).\n` +
+        'Run `sandstone-work link --resume` to finish it, or `sandstone-work link --rollback` to undo it.'
+    )
   }
+}
 
-  // Step 3: Build hot-hook (only if build doesn't exist)
-  if (await directoryExists(join(hotHookDir, 'build'))) {
-    console.log('hot-hook already built, skipping...\n')
-  } else {
-    console.log('Building hot-hook...')
-    await $`bun run build`.cwd(hotHookDir)
-    console.log('hot-hook built\n')
+/** Continues (or with `undo`, rolls back) the journal of an interrupted link/unlink. */
+async function recover(undo: boolean) {
+  const journal = await loadJournal()
+  if (!journal) {
+    throw new Error('There is no interrupted link or unlink to resume.')
   }
 
-  // Step 4: Register packages globally with bun link
-  console.log('Registering sandstone...')
-  await $`bun link`.cwd(sandstoneDir)
+  if (undo) {
+    await rollback(journal)
+    return { rolledBack: journal.operation, steps: journal.steps.slice(0, journal.done).map(describeStep) }
+  }
 
-  console.log('Registering sandstone-cli...')
-  await $`bun link`.cwd(cliDir)
+  const remaining = journal.steps.slice(journal.done)
+  console.log(`Resuming ${journal.operation} at step ${journal.done + 1}/${journal.steps.length}:`)
+  for (const step of remaining) {
+    console.log(`  - ${describeStep(step)}`)
+  }
+  console.log('')
 
-  console.log('Registering hot-hook...')
-  await $`bun link`.cwd(hotHookDir)
+  const workspace = await scanWorkspace(await loadManifest())
+  await runJournal(journal, (step) => applyStep(step, journal, workspace))
+  console.log(`\n${journal.operation === 'link' ? 'Linking' : 'Unlinking'} finished.`)
+  return { resumed: journal.operation, steps: remaining.map(describeStep) }
+}
 
-  // Step 5: Link sandstone and hot-hook into sandstone-cli
-  if (!cliSandstoneLinked) {
-    console.log('\nLinking sandstone into sandstone-cli...')
-    await $`bun link sandstone --save`.cwd(cliDir)
+function printPlan(steps: JournalStep[]) {
+  const counts = new Map<string, number>()
+  for (const step of steps) {
+    counts.set(step.type, (counts.get(step.type) ?? 0) + 1)
   }
-  if (!cliHotHookLinked) {
-    console.log('\nLinking hot-hook into sandstone-cli...')
-    await $`bun link @sandstone-mc/hot-hook --save`.cwd(cliDir)
+  console.log(`Plan: ${[...counts].map(([type, count]) => `${count} ${type}`).join(', ')}`)
+  if (globalOptions.verbose) {
+    steps.forEach((step, i) => console.log(`  ${i + 1}. ${describeStep(step)}`))
   }
+  console.log('')
+}
 
-  // Step 6: Link both packages into sandstone-template
-  if (!templateLinked) {
-    console.log('\nLinking packages into sandstone-template...')
-    await $`bun link sandstone --save`.cwd(templateDir)
-    await $`bun link sandstone-cli --save`.cwd(templateDir)
+/**
+ * Checks the local versions about to be linked against the ranges their consumers declare, refusing
+ * mismatches unless `ignore` is set. Returns the mismatches.
+ */
+async function checkLinkCompat(
+  workspace: Workspace,
+  targets: { consumer: Consumer; dependencies: ConsumerDependency[] }[],
+  ignore: boolean
+): Promise<CompatCheck[]> {
+  const linked = targets.map(({ consumer, dependencies }) => ({
+    consumer,
+    // Packages linked by an earlier run count for the peer ranges too
+    packages: uniquePackages([
+      ...dependencies,
+      ...consumer.dependencies.filter((d) => d.field !== 'peerDependencies' && isLinked(d.specifier)),
+    ]),
+  }))
+  const mismatches = checkCompat(workspace, linked, await loadLinkState()).filter((c) => !c.ok)
+  if (mismatches.length === 0) {
+    return []
   }
 
-  console.log('\nAll packages linked for local development!')
-  console.log('')
-  console.log('You can now:')
-  console.log('  cd sandstone-template && bun run build')
+  console.log('Some local versions are outside of the ranges their consumers declare:\n')
+  printCompatMatrix(mismatches, true)
   console.log('')
-  console.log('To restore npm versions before committing:')
-  console.log('  bun scripts/link.ts unlink')
+  if (!ignore) {
+    throw new Error(
+      'Refusing to link incompatible versions. Update the ranges, or pass --ignore-compat to link anyway.'
+    )
+  }
+  console.log('Linking anyway (--ignore-compat)\n')
+  return mismatches
 }
 
-async function unlink() {
-  const sandstoneDir = join(rootDir, 'sandstone')
-  const cliDir = join(rootDir, 'sandstone-cli')
-  const templateDir = join(rootDir, 'sandstone-template')
-  const hotHookDir = join(rootDir, 'hot-hook', 'packages', 'hot_hook')
+/** Checks the exports of the installed tarballs, after `link --pack`. */
+async function checkPacked(targets: { consumer: Consumer; dependencies: ConsumerDependency[] }[], runDir: string) {
+  const results: { repo: string; path: string; name: string; problems: ExportsProblem[] }[] = []
+
+  if (!globalOptions.dryRun) {
+    console.log('\nChecking the installed packages...')
+    for (const { consumer, dependencies } of targets) {
+      for (const pkg of uniquePackages(dependencies)) {
+        const problems = await checkExports(pkg.name, consumer.dir)
+        results.push({ repo: consumer.repo.shortName, path: consumer.path, name: pkg.name, problems })
+        console.log(`  ${describeConsumer(consumer)}: ${pkg.name} ${problems.length === 0 ? 'ok' : 'BROKEN'}`)
+        for (const { entry, message } of problems) {
+          console.log(`    ${entry}: ${message}`)
+        }
+      }
+    }
+  }
+  await cleanPacks([runDir])
 
-  // Check if already unlinked
-  const cliPkg = await readPackageJson(cliDir)
-  const templatePkg = await readPackageJson(templateDir)
+  console.log('')
+  if (results.some((r) => r.problems.length > 0)) {
+    console.log('Some packages would break once published, see above.')
+    console.log('Fix them and run `sandstone-work link --pack` again,')
+    console.log('or restore npm versions with `sandstone-work unlink`.')
+    process.exitCode = 1
+  } else {
+    console.log('All packages installed from their tarballs!')
+    console.log('')
+    console.log('To restore npm versions before committing:')
+    console.log('  sandstone-work unlink')
+  }
 
-  const cliSandstoneLinked = isLinked(cliPkg.devDependencies?.sandstone)
-  const cliHotHookLinked = isLinked(cliPkg.dependencies?.['@sandstone-mc/hot-hook'])
-  const cliLinked = cliSandstoneLinked || cliHotHookLinked
-  const templateLinked =
-    isLinked(templatePkg.dependencies?.sandstone) ||
-    isLinked(templatePkg.devDependencies?.['sandstone-cli'])
+  return { packed: results }
+}
 
-  if (!cliLinked && !templateLinked) {
-    console.log('Packages are already unlinked.')
-    return
+async function link(args: ParsedArgs) {
+  if (args.flag('resume') || args.flag('rollback')) {
+    return await recover(args.flag('rollback'))
+  }
+  await checkNoJournal()
+
+  const options = getOptions(args)
+  const workspace = await loadWorkspace(options)
+
+  // Find the dependencies still pointing to npm. Peer ranges are left alone, bun link --save
+  // would otherwise turn them into regular dependencies. Packing replaces links and previous
+  // tarballs too, the packages may have changed since.
+  const targets = workspace.consumers
+    .map((consumer) => ({
+      consumer,
+      dependencies: consumer.dependencies.filter(
+        (d) =>
+          d.field !== 'peerDependencies' &&
+          (options.pack || !isLinked(d.specifier) || isPacked(d.specifier)) &&
+          matchesFilters(consumer, d, options)
+      ),
+    }))
+    .filter(({ dependencies }) => dependencies.length > 0)
+
+  if (targets.length === 0) {
+    console.log('Packages are already linked.')
+    return { linked: [] }
   }
 
-  console.log('Unlinking local packages...\n')
+  console.log(options.pack ? 'Installing packed local packages...\n' : 'Linking local packages for development...\n')
+  const mismatches = await checkLinkCompat(workspace, targets, options.ignoreCompat)
 
-  // Unregister packages globally
-  console.log('Unregistering sandstone...')
-  await $`bun unlink`.cwd(sandstoneDir).nothrow()
+  const packages = uniquePackages(targets.flatMap((t) => t.dependencies))
+  const steps: JournalStep[] = []
 
-  console.log('Unregistering sandstone-cli...')
-  await $`bun unlink`.cwd(cliDir).nothrow()
+  // Step 1: Build packages whose sources changed since their last build
+  for (const pkg of packages) {
+    if (!pkg.build) {
+      continue
+    }
+    if (options.build === 'skip') {
+      console.log(`${pkg.name}: not building (--no-build)`)
+      continue
+    }
 
-  console.log('Unregistering hot-hook...')
-  await $`bun unlink`.cwd(hotHookDir).nothrow()
+    const status = await checkBuild(pkg)
+    if (status.fresh && options.build !== 'force') {
+      console.log(`${pkg.name}: ${status.reason}, skipping build`)
+      continue
+    }
+    const reason = options.build === 'force' ? 'rebuild forced (--force-build)' : status.reason
+    steps.push({ type: 'build', name: pkg.name, dir: pkg.dir, command: pkg.build, reason })
+  }
 
-  // Fetch latest versions from npm
-  console.log('\nFetching latest versions from npm...')
-  const [sandstoneVersion, cliVersion, hotHookVersion] = await Promise.all([
-    getLatestNpmVersion('sandstone'),
-    getLatestNpmVersion('sandstone-cli'),
-    getLatestNpmVersion('@sandstone-mc/hot-hook')
-  ])
-  console.log(`  sandstone: ${sandstoneVersion}`)
-  console.log(`  sandstone-cli: ${cliVersion}`)
-  console.log(`  @sandstone-mc/hot-hook: ${hotHookVersion}`)
+  const originalsOf = (dependencies: ConsumerDependency[], pkg: LocalPackage) =>
+    Object.fromEntries(dependencies.filter((d) => d.pkg === pkg).map((d) => [d.field, d.specifier]))
+  const runDir = join(packsDir, new Date().toISOString().replace(/[:.]/g, '-'))
 
-  // Restore sandstone-cli
-  if (cliLinked) {
-    console.log('\nRestoring sandstone-cli...')
-    if (cliSandstoneLinked) {
-      cliPkg.devDependencies!.sandstone = sandstoneVersion
+  if (options.pack) {
+    // Step 2: Pack the packages, then install the tarballs into their consumers
+    for (const pkg of packages) {
+      steps.push({ type: 'pack', name: pkg.name, dir: pkg.dir, tarball: getTarballPath(runDir, pkg) })
+    }
+    for (const { consumer, dependencies } of targets) {
+      const { dir, path } = consumer
+      const tarballs = uniquePackages(dependencies).map((pkg) => ({
+        name: pkg.name,
+        tarball: getTarballPath(runDir, pkg),
+        originals: originalsOf(dependencies, pkg),
+      }))
+      steps.push({ type: 'install', repo: consumer.repo.shortName, path, dir, packages: tarballs })
     }
-    if (cliHotHookLinked) {
-      cliPkg.dependencies!['@sandstone-mc/hot-hook'] = hotHookVersion
+  } else {
+    // Step 2: Register packages globally with bun link
+    for (const pkg of packages) {
+      steps.push({ type: 'register', name: pkg.name, dir: pkg.dir })
     }
-    await writePackageJson(cliDir, cliPkg)
-    await $`bun install`.cwd(cliDir)
+
+    // Step 3: Link packages into their consumers, recording the specifiers being replaced
+    for (const { consumer, dependencies } of targets) {
+      for (const pkg of uniquePackages(dependencies)) {
+        const { dir, path } = consumer
+        const originals = originalsOf(dependencies, pkg)
+        steps.push({ type: 'link', repo: consumer.repo.shortName, path, dir, name: pkg.name, originals })
+      }
+    }
+  }
+
+  printPlan(steps)
+  const journal = createJournal('link', steps, options.registry === DEFAULT_REGISTRY ? undefined : options.registry)
+  await runJournal(journal, (step) => applyStep(step, journal, workspace))
+
+  if (options.pack) {
+    return { ...(await checkPacked(targets, runDir)), mismatches }
   }
 
-  // Restore sandstone-template
-  if (templateLinked) {
-    console.log('\nRestoring sandstone-template...')
+  console.log('\nAll packages linked for local development!')
+  console.log('')
+  console.log('Linked:')
+  for (const { consumer, dependencies } of targets) {
+    console.log(`  ${describeConsumer(consumer)}: ${uniquePackages(dependencies).map((p) => p.name).join(', ')}`)
+  }
+  console.log('')
+  console.log('To restore npm versions before committing:')
+  console.log('  sandstone-work unlink')
+  console.log('')
+  console.log('To have git refuse commits of linked package.json files:')
+  console.log('  sandstone-work hooks install')
+
+  return {
+    linked: targets.map(({ consumer, dependencies }) => ({
+      repo: consumer.repo.shortName,
+      path: consumer.path,
+      packages: uniquePackages(dependencies).map((p) => p.name),
+    })),
+    mismatches,
+  }
+}
+
+async function unlink(args: ParsedArgs) {
+  if (args.flag('resume') || args.flag('rollback')) {
+    return await recover(args.flag('rollback'))
+  }
+  await checkNoJournal()
+
+  const options = getOptions(args)
+  const workspace = await loadWorkspace(options)
 
-    if (isLinked(templatePkg.dependencies?.sandstone)) {
-      templatePkg.dependencies!.sandstone = sandstoneVersion
+  const linkedDependencies = (consumer: Consumer) => consumer.dependencies.filter((d) => isLinked(d.specifier))
+
+  // Check if already unlinked
+  const targets = workspace.consumers
+    .map((consumer) => ({
+      consumer,
+      dependencies: linkedDependencies(consumer).filter((d) => matchesFilters(consumer, d, options)),
+    }))
+    .filter(({ dependencies }) => dependencies.length > 0)
+
+  if (targets.length === 0) {
+    console.log('Packages are already unlinked.')
+    return { restored: [] }
+  }
+
+  console.log('Unlinking local packages...\n')
+
+  // Tarballs installed by `link --pack` were never registered
+  const packages = uniquePackages(targets.flatMap((t) => t.dependencies.filter((d) => !isPacked(d.specifier))))
+  const steps: JournalStep[] = []
+
+  // Unregister packages globally, unless a consumer outside the filters still uses them
+  const stillLinked = new Set(
+    workspace.consumers.flatMap((consumer) =>
+      linkedDependencies(consumer)
+        .filter((d) => !isPacked(d.specifier) && !matchesFilters(consumer, d, options))
+        .map((d) => d.pkg)
+    )
+  )
+  for (const pkg of packages) {
+    if (stillLinked.has(pkg)) {
+      console.log(`Keeping ${pkg.name} registered (still linked elsewhere)`)
+      continue
     }
+    steps.push({ type: 'unregister', name: pkg.name, dir: pkg.dir })
+  }
 
-    if (isLinked(templatePkg.devDependencies?.['sandstone-cli'])) {
-      templatePkg.devDependencies!['sandstone-cli'] = cliVersion
+  // Fetch latest versions for the links linking didn't record, before changing anything
+  const state = await loadLinkState()
+  const linkOf = (consumer: Consumer, { pkg, field }: ConsumerDependency) => ({
+    repo: consumer.repo.shortName,
+    path: consumer.path,
+    field,
+    name: pkg.name,
+  })
+
+  const unrecorded = uniquePackages(
+    targets.flatMap(({ consumer, dependencies }) => dependencies.filter((d) => !findLink(state, linkOf(consumer, d))))
+  )
+  const latestVersions = new Map<string, string>()
+  if (unrecorded.length > 0) {
+    console.log(`\nFetching latest versions from ${options.registry} (no recorded version)...`)
+    for (const [name, version] of await Promise.all(
+      unrecorded.map(async (pkg) => [pkg.name, await getLatestNpmVersion(options.registry, pkg.name)] as const)
+    )) {
+      latestVersions.set(name, version)
+      console.log(`  ${name}: ${version}`)
     }
+    console.log('')
+  }
 
-    await writePackageJson(templateDir, templatePkg)
-    await $`bun install`.cwd(templateDir)
+  // Restore consumers
+  const restored: { repo: string; path: string; dependencies: Record<string, string> }[] = []
+  for (const { consumer, dependencies } of targets) {
+    const versions = dependencies.map((dependency) => ({
+      field: dependency.field,
+      name: dependency.pkg.name,
+      version: findLink(state, linkOf(consumer, dependency))?.original ?? latestVersions.get(dependency.pkg.name)!,
+    }))
+    steps.push({ type: 'restore', repo: consumer.repo.shortName, path: consumer.path, dir: consumer.dir, versions })
+    restored.push({
+      repo: consumer.repo.shortName,
+      path: consumer.path,
+      dependencies: Object.fromEntries(versions.map((v) => [v.name, v.version])),
+    })
   }
 
-  console.log('\nAll packages restored to npm versions!')
+  printPlan(steps)
+  const journal = createJournal('unlink', steps, options.registry === DEFAULT_REGISTRY ? undefined : options.registry)
+  await runJournal(journal, (step) => applyStep(step, journal, workspace))
+  await cleanPacks()
+
+  console.log('\nAll packages restored to their original versions!')
   console.log('Ready for git commit/push.')
+
+  return { restored }
 }
 
-async function main() {
-  const command = process.argv[2]
+const linkOptions: OptionSpec[] = [
+  { name: 'into', type: 'repos', description: 'Only link into/unlink from these repos' },
+  { name: 'package', type: 'list', value: '<names>', description: 'Only link/unlink these packages (package names)' },
+  {
+    name: 'registry',
+    type: 'string',
+    value: '<url>',
+    description: 'Registry used when no version was recorded (default: $npm_config_registry or npmjs)',
+  },
+  { name: 'force-build', type: 'flag', description: "Rebuild linked packages even if their sources didn't change" },
+  { name: 'no-build', type: 'flag', description: "Don't build linked packages" },
+  {
+    name: 'pack',
+    type: 'flag',
+    description: 'Install tarballs made with `bun pm pack` instead of symlinks, and check their exports (link only)',
+  },
+  {
+    name: 'ignore-compat',
+    type: 'flag',
+    description: 'Link even if local versions are outside of the ranges they replace (link only)',
+  },
+  { name: 'resume', type: 'flag', description: 'Finish an interrupted link/unlink from its journal' },
+  { name: 'rollback', type: 'flag', description: 'Undo the steps an interrupted link/unlink already applied' },
+]
+
+export const linkCommand: CommandSpec = {
+  name: 'link',
+  summary: 'Link local packages for development',
+  options: linkOptions,
+  dryRun: true,
+  examples: ['link', 'link --into cli --package sandstone', 'link --pack', 'link --dry-run'],
+  run: link,
+}
 
-  if (command === 'link') {
-    await link()
-  } else if (command === 'unlink') {
-    await unlink()
-  } else {
-    console.log('Usage: bun scripts/link.ts <link|unlink>')
-    console.log('')
-    console.log('Commands:')
-    console.log('  link    - Link local packages for development')
-    console.log('  unlink  - Restore npm versions (fetches latest from registry)')
-    process.exit(1)
-  }
+export const unlinkCommand: CommandSpec = {
+  name: 'unlink',
+  summary: 'Restore the versions recorded by link',
+  options: linkOptions,
+  dryRun: true,
+  examples: ['unlink', 'unlink --into template'],
+  run: unlink,
 }
 
-main().catch((err) => {
-  console.error('Error:', err)
-  process.exit(1)
-})
+if (import.meta.main) {
+  await runCli([linkCommand, unlinkCommand], process.argv.slice(2))
+}
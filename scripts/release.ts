@@ -0,0 +1,477 @@
+/**
+ * Releases local packages together: bumps their versions, updates the ranges the other repos use
+ * for them, adds changelog sections and commits and tags everything locally.
+ *
+ * Usage:
+ *   sandstone-work release <package>@<bump>...   - Release these packages (package names)
+ *   sandstone-work release ... --dry-run         - Only print the versions, ranges, changelogs and git commands
+ *
+ * Bumps:
+ *   major, minor, patch        1.2.3 -> 2.0.0, 1.3.0, 1.2.4 (a prerelease of that level is released as is:
+ *                              1.3.0-rc.1 -> 1.3.0)
+ *   alpha, beta, rc            Next prerelease: 1.2.3 -> 1.2.4-beta.0, 1.2.4-beta.0 -> 1.2.4-beta.1 or 1.2.4-rc.0
+ *   <level>-<alpha|beta|rc>    First prerelease of a bump: minor-beta is 1.2.3 -> 1.3.0-beta.0 (a prerelease of
+ *                              that level is continued: 1.3.0-beta.2 -> 1.3.0-beta.3, or 1.4.0-alpha.0 with alpha)
+ *   <version>                  That exact version
+ *
+ * Examples:
+ *   sandstone-work release sandstone@minor sandstone-cli@patch
+ *   sandstone-work release @sandstone-mc/hot-hook@rc
+ *
+ * Dependency ranges on the released packages are rewritten keeping their operator (`^1.2.0` ->
+ * `^1.3.0`). Peer ranges are only rewritten when the new version is outside of them, and complex
+ * ranges (`||`, hyphens...) are left alone. Each package gets a section in its CHANGELOG.md with the
+ * commits touching it since its last tag (`v<version>`, or `<name>@<version>` in repos publishing
+ * several packages). Nothing is pushed or published: that stays a separate, explicit step.
+ *
+ * If a commit or tag fails, the release is undone in every repo: tags deleted, commits reset and files
+ * restored.
+ */
+
+import { $ } from 'bun'
+import { join, relative } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { fileExists, removeFile, writeFile } from './lib/fs.ts'
+import { getHeadCommit, getWorkingTreeCounts } from './lib/git.ts'
+import { type RepoEntry, loadManifest } from './lib/manifest.ts'
+import { type DependencyField, isLinked, readPackageJson, writePackageJson } from './lib/package-json.ts'
+import { exec } from './lib/run.ts'
+import {
+  compareIdentifiers,
+  compareVersions,
+  formatVersion,
+  parseVersion,
+  replaceRangeVersion,
+  satisfies,
+} from './lib/semver.ts'
+import { excerpt, printTable } from './lib/tasks.ts'
+import { type Consumer, type LocalPackage, scanWorkspace } from './lib/workspace.ts'
+
+const BUMP_LEVELS = ['major', 'minor', 'patch']
+const PRERELEASES = ['alpha', 'beta', 'rc']
+
+interface Release {
+  pkg: LocalPackage
+  from: string
+  to: string
+  tag: string
+  /** Tag of the previous release, the changelog starts there */
+  since: string | null
+  /** Changelog lines, `- <subject> (<hash>)` */
+  changes: string[]
+}
+
+interface RangeUpdate {
+  consumer: Consumer
+  field: DependencyField
+  name: string
+  from: string
+  to: string
+}
+
+/** Version after a bump, see the header. Prereleases are named `<alpha|beta|rc>.<n>`. */
+function bumpVersion(version: string, bump: string): string {
+  const current = parseVersion(version)
+  if (!current) {
+    throw new Error(`Can't bump ${version}, it isn't a valid version`)
+  }
+
+  if (/^\d/.test(bump)) {
+    const target = parseVersion(bump)
+    if (!target) {
+      throw new Error(`${bump} is not a valid version`)
+    }
+    if (compareVersions(target, current) <= 0) {
+      throw new Error(`${bump} is not after the current version ${version}`)
+    }
+    return formatVersion(target, true)
+  }
+
+  const [level, prerelease] = bump.includes('-')
+    ? bump.split('-', 2)
+    : BUMP_LEVELS.includes(bump)
+      ? [bump, undefined]
+      : [undefined, bump]
+  if ((level && !BUMP_LEVELS.includes(level)) || (prerelease && !PRERELEASES.includes(prerelease))) {
+    throw new Error(
+      `Unknown bump "${bump}" (major, minor, patch, alpha, beta, rc, <level>-<prerelease> or a version)`
+    )
+  }
+  const { major, minor, patch } = current
+  const [currentId, currentNumber] = current.prerelease
+  // The next prerelease of the current version, when `prerelease` isn't lower than the current one
+  const continued = () =>
+    currentId !== undefined && compareIdentifiers(prerelease!, currentId) >= 0
+      ? `${major}.${minor}.${patch}-${prerelease}.${
+          prerelease === currentId && typeof currentNumber === 'number' ? currentNumber + 1 : 0
+        }`
+      : null
+
+  let next: string
+  if (!level) {
+    // Continue the current prerelease, or start one for the next patch
+    if (currentId === undefined) {
+      return `${major}.${minor}.${patch + 1}-${prerelease}.0`
+    }
+    const same = continued()
+    if (!same) {
+      throw new Error(`Can't go back from ${version} to ${prerelease}`)
+    }
+    next = same
+  } else {
+    // A prerelease of the bumped level is released as is (1.3.0-rc.1 with minor is 1.3.0), or continued
+    // with a later prerelease (1.3.0-beta.2 with minor-rc is 1.3.0-rc.0)
+    const released =
+      currentId !== undefined &&
+      (level === 'major' ? minor === 0 && patch === 0 : level === 'minor' ? patch === 0 : true)
+    const same = released && prerelease ? continued() : null
+    if (same) {
+      next = same
+    } else if (released && !prerelease) {
+      next = `${major}.${minor}.${patch}`
+    } else {
+      const base =
+        level === 'major'
+          ? `${major + 1}.0.0`
+          : level === 'minor'
+            ? `${major}.${minor + 1}.0`
+            : `${major}.${minor}.${patch + 1}`
+      next = prerelease ? `${base}-${prerelease}.0` : base
+    }
+  }
+
+  if (compareVersions(next, current) <= 0) {
+    throw new Error(`Bumping ${version} with ${bump} gives ${next}, which is not after it`)
+  }
+  return next
+}
+
+/** Files and changes committed in a repo */
+interface RepoCommit {
+  files: string[]
+  releases: Release[]
+  updates: RangeUpdate[]
+}
+
+interface CreatedCommit {
+  repo: string
+  message: string
+  tags: string[]
+}
+
+/** What a release changed, to put it back if a later step fails. */
+interface ReleaseBackup {
+  /** Original content of the written files, null for the ones that didn't exist */
+  files: Map<string, string | null>
+  /** HEAD of the git repos before committing, null in repos without commits */
+  heads: Map<RepoEntry, string | null>
+  tags: { repo: RepoEntry; tag: string }[]
+}
+
+async function backupFile(backup: ReleaseBackup, path: string) {
+  if (!backup.files.has(path)) {
+    const file = Bun.file(path)
+    backup.files.set(path, (await file.exists()) ? await file.text() : null)
+  }
+}
+
+/** Deletes the tags, resets the commits and restores the files of a failed release. */
+async function undoRelease(backup: ReleaseBackup) {
+  const git = (repo: RepoEntry, ...gitArgs: string[]) =>
+    exec(['git', '-C', repo.dir, ...gitArgs], { quiet: true, nothrow: true })
+  for (const { repo, tag } of backup.tags) {
+    await git(repo, 'tag', '-d', tag)
+  }
+  // Trees were clean before releasing: resetting HEAD and the index drops the commits and staged files
+  for (const [repo, head] of backup.heads) {
+    if (head) {
+      await git(repo, 'reset', '--quiet', head)
+    } else {
+      await git(repo, 'update-ref', '-d', 'HEAD')
+      await git(repo, 'read-tree', '--empty')
+    }
+  }
+  for (const [path, content] of backup.files) {
+    await (content === null ? removeFile(path) : writeFile(path, content))
+  }
+}
+
+/** Repos publishing several packages tag each of them with its name. */
+function getTagPrefix(pkg: LocalPackage): string {
+  return pkg.repo.packages.length > 1 || pkg.dir !== pkg.repo.dir ? `${pkg.name}@` : 'v'
+}
+
+async function getLastTag(pkg: LocalPackage): Promise<string | null> {
+  const pattern = `${getTagPrefix(pkg)}[0-9]*`
+  const result = await $`git -C ${pkg.repo.dir} describe --tags --abbrev=0 --match ${pattern}`.quiet().nothrow()
+  return result.exitCode === 0 ? result.stdout.toString().trim() : null
+}
+
+async function tagExists(dir: string, tag: string): Promise<boolean> {
+  return (await $`git -C ${dir} rev-parse --verify --quiet refs/tags/${tag}`.quiet().nothrow()).exitCode === 0
+}
+
+/** Commits touching the package since `since`, without previous release commits. */
+async function getChanges(pkg: LocalPackage, since: string | null): Promise<string[]> {
+  const range = since ? `${since}..HEAD` : 'HEAD'
+  const path = relative(pkg.repo.dir, pkg.dir) || '.'
+  const result = await $`git -C ${pkg.repo.dir} log ${range} --format=%h%x09%s -- ${path}`.quiet().nothrow()
+  return result.stdout
+    .toString()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => line.split('\t'))
+    .filter(([, subject]) => !subject.startsWith('Release '))
+    .map(([hash, subject]) => `- ${subject} (${hash})`)
+}
+
+/** CHANGELOG.md content with the release's section added on top, under the title. */
+function addChangelogSection(existing: string | null, release: Release): string {
+  const date = new Date().toISOString().slice(0, 10)
+  const changes = release.changes.length > 0 ? release.changes : ['- No changes']
+  const section = `## ${release.to} (${date})\n\n${changes.join('\n')}\n`
+  if (!existing) {
+    return `# Changelog\n\n${section}`
+  }
+  const title = existing.match(/^# .*\n+/)
+  return title ? `${title[0]}${section}\n${existing.slice(title[0].length)}` : `${section}\n${existing}`
+}
+
+/** Parses `<package>@<bump>` arguments into the planned releases. */
+async function planReleases(targets: string[], packages: LocalPackage[]): Promise<Release[]> {
+  const releases: Release[] = []
+  for (const target of targets) {
+    const at = target.lastIndexOf('@')
+    if (at <= 0) {
+      throw new Error(`Expected <package>@<bump>, got "${target}" (see --help)`)
+    }
+    const [name, bump] = [target.slice(0, at), target.slice(at + 1)]
+    const pkg = packages.find((p) => p.name === name)
+    if (!pkg) {
+      throw new Error(`Package "${name}" was not found in the workspace`)
+    }
+    if (releases.some((r) => r.pkg === pkg)) {
+      throw new Error(`${name} is given twice`)
+    }
+    if (!pkg.version) {
+      throw new Error(`${name} has no version in its package.json`)
+    }
+
+    const to = bumpVersion(pkg.version, bump)
+    const tag = `${getTagPrefix(pkg)}${to}`
+    if (await tagExists(pkg.repo.dir, tag)) {
+      throw new Error(`Tag ${tag} already exists in ${pkg.repo.folderName}`)
+    }
+    const since = await getLastTag(pkg)
+    releases.push({ pkg, from: pkg.version, to, tag, since, changes: await getChanges(pkg, since) })
+  }
+  return releases
+}
+
+function planRangeUpdates(consumers: Consumer[], releases: Release[]): RangeUpdate[] {
+  const updates: RangeUpdate[] = []
+  for (const consumer of consumers) {
+    for (const { pkg, field, specifier } of consumer.dependencies) {
+      const release = releases.find((r) => r.pkg === pkg)
+      if (!release) {
+        continue
+      }
+      if (isLinked(specifier)) {
+        throw new Error(
+          `${pkg.name} is linked into ${consumer.repo.shortName}. Run \`sandstone-work unlink\` first, ` +
+            'the release commits package.json files.'
+        )
+      }
+      // Peers only need a new range when the release falls outside of it
+      if (field === 'peerDependencies' && satisfies(release.to, specifier)) {
+        continue
+      }
+      const range = replaceRangeVersion(specifier, release.to)
+      if (!range) {
+        console.log(`Leaving ${consumer.repo.shortName} ${field} ${pkg.name}@${specifier} alone (complex range)`)
+      } else if (range !== specifier) {
+        updates.push({ consumer, field, name: pkg.name, from: specifier, to: range })
+      }
+    }
+  }
+  return updates
+}
+
+/** Writes the versions, changelogs and ranges, then commits and tags each repo, adding them to `created`. */
+async function applyRelease(
+  releases: Release[],
+  updates: RangeUpdate[],
+  commits: Map<RepoEntry, RepoCommit>,
+  backup: ReleaseBackup,
+  created: CreatedCommit[]
+) {
+  // Versions and changelogs
+  for (const r of releases) {
+    const json = await readPackageJson(r.pkg.dir)
+    json.version = r.to
+    await writePackageJson(r.pkg.dir, json)
+
+    const changelogPath = join(r.pkg.dir, 'CHANGELOG.md')
+    const changelog = Bun.file(changelogPath)
+    await writeFile(changelogPath, addChangelogSection((await changelog.exists()) ? await changelog.text() : null, r))
+    console.log(`${r.pkg.name} ${r.to}:\n${r.changes.map((c) => `  ${c}`).join('\n') || '  (no changes)'}\n`)
+  }
+
+  // Dependent ranges, one package.json write per consumer
+  for (const consumer of new Set(updates.map((u) => u.consumer))) {
+    const json = await readPackageJson(consumer.dir)
+    for (const { field, name, to } of updates.filter((u) => u.consumer === consumer)) {
+      json[field] = { ...json[field], [name]: to }
+    }
+    await writePackageJson(consumer.dir, json)
+  }
+
+  // Commits and tags
+  for (const [repo, commit] of commits) {
+    if (!(await fileExists(join(repo.dir, '.git')))) {
+      continue
+    }
+    const message =
+      commit.releases.length > 0
+        ? `Release ${commit.releases.map((r) => `${r.pkg.name}@${r.to}`).join(', ')}`
+        : `Update ${[...new Set(commit.updates.map((u) => u.name))]
+            .map((name) => `${name} to ${releases.find((r) => r.pkg.name === name)!.to}`)
+            .join(', ')}`
+
+    const git = (...gitArgs: string[]) => exec(['git', '-C', repo.dir, ...gitArgs], { quiet: true, nothrow: true })
+    const files = [...new Set(commit.files)].map((f) => relative(repo.dir, f))
+    const result = (await git('add', '--', ...files)).exitCode === 0 ? await git('commit', '-m', message) : null
+    if (!result || result.exitCode !== 0) {
+      throw new Error(`Could not commit in ${repo.folderName}${result ? `: ${excerpt(result)}` : ''}`)
+    }
+    const tags: string[] = []
+    created.push({ repo: repo.shortName, message, tags })
+    for (const r of commit.releases) {
+      const tag = await git('tag', '-a', r.tag, '-m', `${r.pkg.name} ${r.to}`)
+      if (tag.exitCode !== 0) {
+        throw new Error(`Could not tag ${r.tag} in ${repo.folderName}: ${excerpt(tag)}`)
+      }
+      tags.push(r.tag)
+      backup.tags.push({ repo, tag: r.tag })
+    }
+    console.log(`${repo.folderName}: committed "${message}"${tags.length > 0 ? `, tagged ${tags.join(', ')}` : ''}`)
+  }
+}
+
+async function release(args: ParsedArgs) {
+  if (args.positionals.length === 0) {
+    throw new Error('Expected the packages to release, as <package>@<bump> (see --help)')
+  }
+
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const releases = await planReleases(args.positionals, workspace.packages)
+  const updates = planRangeUpdates(workspace.consumers, releases)
+
+  // What each repo gets committed
+  const commits = new Map<RepoEntry, RepoCommit>()
+  const commitOf = (repo: RepoEntry) => {
+    const commit = commits.get(repo) ?? { files: [], releases: [], updates: [] }
+    commits.set(repo, commit)
+    return commit
+  }
+  for (const r of releases) {
+    const commit = commitOf(r.pkg.repo)
+    commit.releases.push(r)
+    commit.files.push(join(r.pkg.dir, 'package.json'), join(r.pkg.dir, 'CHANGELOG.md'))
+  }
+  for (const update of updates) {
+    const commit = commitOf(update.consumer.repo)
+    commit.updates.push(update)
+    commit.files.push(join(update.consumer.dir, 'package.json'))
+  }
+
+  // Only release from clean trees, the commits would otherwise pick up unrelated changes
+  const dirty: string[] = []
+  for (const repo of commits.keys()) {
+    if ((await fileExists(join(repo.dir, '.git'))) && (await getWorkingTreeCounts(repo.dir)).dirty > 0) {
+      dirty.push(repo.folderName)
+    }
+  }
+  if (dirty.length > 0) {
+    throw new Error(`Commit or stash the changes in ${dirty.join(', ')} first.`)
+  }
+
+  printTable(
+    ['package', 'version', 'tag', 'changes since'],
+    releases.map((r) => [
+      r.pkg.name,
+      `${r.from} -> ${r.to}`,
+      r.tag,
+      `${r.since ?? 'first commit'} (${r.changes.length} commit${r.changes.length === 1 ? '' : 's'})`,
+    ])
+  )
+  if (updates.length > 0) {
+    console.log('\nDependent ranges:')
+    for (const { consumer, field, name, from, to } of updates) {
+      const where = consumer.path === '.' ? consumer.repo.shortName : join(consumer.repo.shortName, consumer.path)
+      console.log(`  ${where}: ${field} ${name} ${from} -> ${to}`)
+    }
+  }
+  console.log('')
+
+  const backup: ReleaseBackup = { files: new Map(), heads: new Map(), tags: [] }
+  for (const [repo, commit] of commits) {
+    for (const file of commit.files) {
+      await backupFile(backup, file)
+    }
+    if (await fileExists(join(repo.dir, '.git'))) {
+      backup.heads.set(repo, await getHeadCommit(repo.dir))
+    }
+  }
+
+  const created: CreatedCommit[] = []
+  try {
+    await applyRelease(releases, updates, commits, backup, created)
+  } catch (error) {
+    console.log('\nThe release failed, undoing it...')
+    await undoRelease(backup)
+    const undone = created.map((c) => c.repo)
+    const commitsUndone = undone.length > 0 ? `, and reset the commits and tags of ${undone.join(', ')}` : ''
+    console.log(`Restored the versions, changelogs and ranges${commitsUndone}.`)
+    throw error
+  }
+
+  console.log('\nNothing was pushed or published. When ready:')
+  console.log('  - push the commits and tags: git push --follow-tags, in each repo')
+  for (const r of releases) {
+    console.log(`  - publish ${r.pkg.name}: bun publish in ${relative(process.cwd(), r.pkg.dir) || '.'}`)
+  }
+  if (updates.length > 0) {
+    console.log('  - once published, run bun install where ranges changed to update bun.lock')
+  }
+
+  return {
+    releases: releases.map((r) => ({ name: r.pkg.name, from: r.from, to: r.to, tag: r.tag, changes: r.changes })),
+    ranges: updates.map(({ consumer, field, name, from, to }) => ({
+      repo: consumer.repo.shortName,
+      path: consumer.path,
+      field,
+      name,
+      from,
+      to,
+    })),
+    commits: created,
+  }
+}
+
+export const releaseCommand: CommandSpec = {
+  name: 'release',
+  summary: 'Bump, changelog, commit and tag local packages together, updating the ranges their dependents use',
+  usage: '<package>@<bump>...',
+  description:
+    'Bumps: major, minor, patch, alpha, beta, rc, <level>-<alpha|beta|rc> or an exact version.\n' +
+    'Commits and tags are local, pushing and publishing stay separate steps.',
+  dryRun: true,
+  examples: ['release sandstone@minor sandstone-cli@patch', 'release @sandstone-mc/hot-hook@rc --dry-run'],
+  run: release,
+}
+
+if (import.meta.main) {
+  await runCommand(releaseCommand, process.argv.slice(2))
+}
@@ -2,275 +2,399 @@
  * Setup script for the Sandstone monorepo.
  *
  * Usage:
- *   bun scripts/setup.ts                     - Run setup with default settings
- *   bun scripts/setup.ts --org <name>        - Use a different git org/user
- *   bun scripts/setup.ts --skip <repos>      - Skip specific repos (comma-separated)
- *   bun scripts/setup.ts --only <repos>      - Only include specific repos (comma-separated)
+ *   sandstone-work setup                      - Run setup with default settings
+ *   sandstone-work setup --org <name>         - Use a different git org/user
+ *   sandstone-work setup --skip <repos>       - Skip specific repos (comma-separated)
+ *   sandstone-work setup --only <repos>       - Only include specific repos (comma-separated)
+ *   sandstone-work setup --jobs <n>           - Number of repos cloned/pulled/installed at once (default: 4)
+ *   sandstone-work setup --yes                - Fast-forward forks from upstream without asking
+ *   sandstone-work setup --from-bundles <dir> - Clone/update the repos from the bundles of `export-bundles`
+ *
+ * Repos cloned from a fork get an `upstream` remote pointing at sandstone-mc. The owner can be
+ * overridden per repo with `repo-owners` in manifest.contribute.json:
+ *   { "git-user": "sandstone-mc", "skip-repos": [], "repo-owners": { "cli": "MulverineX" } }
+ *
+ * Clone URLs follow `url-template` (default: https://github.com/{owner}/{repo}.git), overridable
+ * per repo with `repo-urls`, see lib/contribute.ts.
+ *
+ * With `--from-bundles`, nothing is fetched from the remotes: repos are cloned from (or fast-forwarded
+ * to) `<dir>/<folder>.bundle`, and clones get their usual origin URL for later pulls. Dependencies
+ * still come from the registry, or bun's cache.
  *
  * Examples:
- *   bun scripts/setup.ts --org MulverineX
- *   bun scripts/setup.ts --skip documentation,playground
- *   bun scripts/setup.ts --only sandstone,cli,template
+ *   sandstone-work setup --org MulverineX
+ *   sandstone-work setup --skip documentation,playground
+ *   sandstone-work setup --only sandstone,cli,template
+ *   sandstone-work setup --from-bundles /media/usb/sandstone-bundles
  */
 
 import { $ } from 'bun'
-import { access } from 'fs/promises'
-import { join } from 'path'
-
-const rootDir = join(import.meta.dir, '..')
-const DEFAULT_ORG = 'sandstone-mc'
-
-interface Manifest {
-  [shortName: string]: string // shortName -> folderName
+import { basename, join, resolve } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import {
+  type ContributeManifest,
+  getManagedRepos,
+  getRepoOwner,
+  getRepoUrl,
+  loadContributeManifest,
+  saveContributeManifest,
+  shouldIncludeRepo,
+} from './lib/contribute.ts'
+import { fileExists } from './lib/fs.ts'
+import { getBundlePath, getDefaultBranch, getGitBranch, getGitRemoteUrl, getTrackingBranch } from './lib/git.ts'
+import { DEFAULT_ORG, loadManifest, rootDir } from './lib/manifest.ts'
+import { exec, globalOptions } from './lib/run.ts'
+import { type TaskLog, createLock, createTaskLog, excerpt, mapConcurrent, printTable } from './lib/tasks.ts'
+import { syncGitignore, syncWorkspaceFile } from './lib/workspace-files.ts'
+
+const DEFAULT_JOBS = 4
+
+interface RepoTask {
+  shortName: string
+  folderName: string
+  repoDir: string
 }
 
-interface ContributeManifest {
-  'git-user': string
-  'skip-repos': string[]
-  'only-repos'?: string[]
+interface SetupOptions {
+  contribute: ContributeManifest
+  autoConfirm: boolean
+  /** Directory of the bundles to clone from, instead of the remotes */
+  bundlesDir?: string
 }
 
-interface WorkspaceFolder {
-  name: string
-  path: string
+interface RepoOutcome {
+  shortName: string
+  git: 'cloned' | 'pulled' | 'skipped' | 'failed'
+  install: 'installed' | 'failed' | '-'
+  /** Skip reason or error excerpt */
+  detail: string
+  lines: string[]
 }
 
-interface Workspace {
-  folders: WorkspaceFolder[]
-  settings: Record<string, unknown>
-}
-
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await access(path)
+function ask(question: string, autoConfirm: boolean): boolean {
+  if (autoConfirm) {
     return true
-  } catch {
+  }
+  if (!process.stdin.isTTY) {
+    console.log(`${question} (skipped: not interactive, use --yes)`)
     return false
   }
+  return confirm(question)
 }
 
-async function readJson<T>(path: string): Promise<T> {
-  return await Bun.file(path).json()
+const promptLock = createLock()
+
+/**
+ * Makes sure a fork has an `upstream` remote for the canonical repo, fetches it, and offers to
+ * fast-forward the default branch (locally and on the fork) when it is behind upstream.
+ *
+ * Returns an error message if a git command failed.
+ */
+async function syncFork(repo: RepoTask, out: TaskLog, options: SetupOptions): Promise<string | null> {
+  const { shortName, repoDir } = repo
+  const upstreamUrl = getRepoUrl(repo, options.contribute, DEFAULT_ORG)
+
+  if (!(await getGitRemoteUrl(repoDir, 'upstream'))) {
+    out.log(`Adding upstream remote (${upstreamUrl})`)
+    await out.exec(['git', 'remote', 'add', 'upstream', upstreamUrl], repoDir)
+  }
+
+  out.log('Fetching upstream...')
+  const fetch = await out.exec(['git', 'fetch', 'upstream'], repoDir)
+  if (fetch.exitCode !== 0) {
+    return `fetching upstream failed: ${excerpt(fetch)}`
+  }
+
+  const defaultBranch = await getDefaultBranch(repoDir, 'upstream')
+  if (!defaultBranch) {
+    return null
+  }
+
+  const local = await $`git -C ${repoDir} rev-parse --verify --quiet refs/heads/${defaultBranch}`.quiet().nothrow()
+  if (local.exitCode !== 0) {
+    return null
+  }
+
+  const behind = await $`git -C ${repoDir} rev-list --count ${defaultBranch}..upstream/${defaultBranch}`.quiet().nothrow()
+  const count = Number(behind.stdout.toString().trim())
+  if (!count) {
+    return null
+  }
+
+  const ancestor = await $`git -C ${repoDir} merge-base --is-ancestor ${defaultBranch} upstream/${defaultBranch}`.quiet().nothrow()
+  if (ancestor.exitCode !== 0) {
+    out.log(`${defaultBranch} has diverged from upstream, not fast-forwarding`)
+    return null
+  }
+
+  const question = `${shortName}: ${defaultBranch} is ${count} commit(s) behind upstream. Fast-forward it and push to your fork?`
+  if (!(await promptLock(() => ask(question, options.autoConfirm)))) {
+    return null
+  }
+
+  const forward =
+    (await getGitBranch(repoDir)) === defaultBranch
+      ? await out.exec(['git', 'merge', '--ff-only', `upstream/${defaultBranch}`], repoDir)
+      : await out.exec(['git', 'fetch', '.', `upstream/${defaultBranch}:${defaultBranch}`], repoDir)
+  if (forward.exitCode !== 0) {
+    return `fast-forwarding ${defaultBranch} failed: ${excerpt(forward)}`
+  }
+
+  const push = await out.exec(['git', 'push', 'origin', defaultBranch], repoDir)
+  if (push.exitCode !== 0) {
+    return `pushing ${defaultBranch} to the fork failed: ${excerpt(push)}`
+  }
+  out.log(`Fast-forwarded ${defaultBranch} from upstream`)
+  return null
 }
 
-async function writeJson(path: string, data: unknown): Promise<void> {
-  await Bun.write(path, JSON.stringify(data, null, 2) + '\n')
+/** Fast-forwards a repo from its bundle: the bundle's branches update the origin ones, as a pull would. */
+async function pullFromBundle(repo: RepoTask, out: TaskLog, bundle: string): Promise<string | null> {
+  const fetch = await out.exec(['git', 'fetch', bundle, '+refs/heads/*:refs/remotes/origin/*'], repo.repoDir)
+  if (fetch.exitCode !== 0) {
+    return excerpt(fetch)
+  }
+  const merge = await out.exec(['git', 'merge', '--ff-only', '@{upstream}'], repo.repoDir)
+  return merge.exitCode === 0 ? null : excerpt(merge)
 }
 
-async function getGitOriginUrl(repoDir: string): Promise<string | null> {
-  try {
-    const result = await $`git -C ${repoDir} remote get-url origin`.quiet().nothrow()
-    if (result.exitCode === 0) {
-      return result.stdout.toString().trim()
+/** Clones or pulls a repo, then installs its dependencies if needed. */
+async function processRepo(repo: RepoTask, options: SetupOptions): Promise<RepoOutcome> {
+  const { shortName, folderName, repoDir } = repo
+  const out = createTaskLog()
+  const outcome: RepoOutcome = { shortName, git: 'skipped', install: '-', detail: '', lines: out.lines }
+  const fail = (step: 'git' | 'install', detail: string) => {
+    outcome[step] = 'failed'
+    outcome.detail = detail
+    return outcome
+  }
+
+  const { contribute, bundlesDir } = options
+  const owner = getRepoOwner(shortName, contribute)
+  const repoUrl = getRepoUrl(repo, contribute)
+  const bundle = bundlesDir && getBundlePath(bundlesDir, folderName)
+  const exists = await fileExists(repoDir)
+
+  if (bundle && !(await fileExists(bundle))) {
+    return fail('git', `no bundle at ${bundle}`)
+  }
+
+  if (!exists && bundle) {
+    // Clone from the bundle, then point origin where the repo would have been cloned from
+    out.log(`Cloning from ${basename(bundle)}...`)
+    const clone = await out.exec(['git', 'clone', bundle, folderName], rootDir)
+    if (clone.exitCode !== 0) {
+      return fail('git', excerpt(clone))
+    }
+    await out.exec(['git', 'remote', 'set-url', 'origin', repoUrl], repoDir)
+    outcome.git = 'cloned'
+  } else if (!exists) {
+    // Clone the repo
+    out.log(`Cloning from ${owner}...`)
+    const clone = await out.exec(['git', 'clone', repoUrl, folderName], rootDir)
+    if (clone.exitCode !== 0) {
+      return fail('git', excerpt(clone))
     }
-  } catch {
-    // Ignore errors
+    outcome.git = 'cloned'
   }
-  return null
-}
 
-async function getGitBranch(repoDir: string): Promise<string | null> {
-  try {
-    const result = await $`git -C ${repoDir} branch --show-current`.quiet().nothrow()
-    if (result.exitCode === 0) {
-      return result.stdout.toString().trim()
+  if (owner !== DEFAULT_ORG && !bundle) {
+    const error = await syncFork(repo, out, options)
+    if (error) {
+      return fail('git', error)
     }
-  } catch {
-    // Ignore errors
   }
-  return null
-}
 
-function parseArgs(): { org?: string; skip?: string[]; only?: string[] } {
-  const args = process.argv.slice(2)
-  const result: { org?: string; skip?: string[]; only?: string[] } = {}
-
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--org' && args[i + 1]) {
-      result.org = args[++i]
-    } else if (args[i] === '--skip' && args[i + 1]) {
-      result.skip = args[++i].split(',').map((s) => s.trim())
-    } else if (args[i] === '--only' && args[i + 1]) {
-      result.only = args[++i].split(',').map((s) => s.trim())
+  if (exists) {
+    // Repo exists - pull if the current branch tracks a remote branch
+    const branch = await getGitBranch(repoDir)
+    const tracking = await getTrackingBranch(repoDir)
+
+    if (tracking && bundle) {
+      out.log(`Pulling ${branch} from ${basename(bundle)}...`)
+      const error = await pullFromBundle(repo, out, bundle)
+      if (error) {
+        return fail('git', error)
+      }
+      outcome.git = 'pulled'
+    } else if (tracking) {
+      out.log(`Pulling ${branch} from ${tracking}...`)
+      const pull = await out.exec(['git', 'pull'], repoDir)
+      if (pull.exitCode !== 0) {
+        return fail('git', excerpt(pull))
+      }
+      outcome.git = 'pulled'
+    } else {
+      outcome.detail = branch ? `branch ${branch} has no tracking branch` : 'detached HEAD'
+      out.log(`Skipping pull (${outcome.detail})`)
     }
   }
 
-  return result
-}
+  // Install dependencies where needed
+  const hasBunLock = await fileExists(join(repoDir, 'bun.lock'))
+  const hasNodeModules = await fileExists(join(repoDir, 'node_modules'))
 
-function shouldIncludeRepo(
-  shortName: string,
-  config: ContributeManifest
-): boolean {
-  if (config['only-repos'] && config['only-repos'].length > 0) {
-    return config['only-repos'].includes(shortName)
+  if (hasBunLock && !hasNodeModules) {
+    out.log('Installing dependencies...')
+    const install = await out.exec(['bun', 'install'], repoDir)
+    if (install.exitCode !== 0) {
+      return fail('install', excerpt(install))
+    }
+    await out.exec(['bun', 'pm', 'trust', '--all'], repoDir)
+    outcome.install = 'installed'
   }
-  return !config['skip-repos'].includes(shortName)
+
+  return outcome
 }
 
-async function setup() {
-  const args = parseArgs()
+async function setup(args: ParsedArgs) {
+  const org = args.string('org')
+  const skip = args.list('skip')
+  const only = args.list('only')
+  const jobs = args.int('jobs') ?? DEFAULT_JOBS
+  const bundles = args.string('from-bundles')
+  const bundlesDir = bundles === undefined ? undefined : resolve(bundles)
+  if (bundlesDir && !(await fileExists(bundlesDir))) {
+    throw new Error(`Bundle directory ${bundlesDir} does not exist`)
+  }
 
   // Load manifests
-  const manifest = await readJson<Manifest>(join(rootDir, 'manifest.json'))
-  let contribute: ContributeManifest
-
-  if (await fileExists(join(rootDir, 'manifest.contribute.json'))) {
-    contribute = await readJson<ContributeManifest>(
-      join(rootDir, 'manifest.contribute.json')
-    )
-  } else {
-    contribute = {
-      'git-user': DEFAULT_ORG,
-      'skip-repos': [],
-    }
-  }
+  const manifest = await loadManifest()
+  const contribute = await loadContributeManifest()
 
   // Update contribute manifest if CLI args provided
   let contributeModified = false
-  if (args.org && args.org !== contribute['git-user']) {
-    contribute['git-user'] = args.org
+  if (org && org !== contribute['git-user']) {
+    contribute['git-user'] = org
     contributeModified = true
   }
-  if (args.skip) {
-    contribute['skip-repos'] = args.skip
+  if (skip) {
+    contribute['skip-repos'] = skip
     delete contribute['only-repos']
     contributeModified = true
   }
-  if (args.only) {
-    contribute['only-repos'] = args.only
+  if (only) {
+    contribute['only-repos'] = only
     contribute['skip-repos'] = []
     contributeModified = true
   }
 
   if (contributeModified) {
-    await writeJson(join(rootDir, 'manifest.contribute.json'), contribute)
+    await saveContributeManifest(contribute)
     console.log('Updated manifest.contribute.json\n')
   }
 
-  if (!contributeModified && (contribute['git-user'] !== 'sandstone-mc' || contribute['only-repos'] || contribute['skip-repos'].length !== 0)) {
-    // from this point on the variable tells the CLI to not modify the workspace nor gitignore
-    contributeModified = true
+  for (const key of ['repo-owners', 'repo-urls'] as const) {
+    for (const shortName of Object.keys(contribute[key] ?? {})) {
+      if (!manifest.repos.some((r) => r.shortName === shortName)) {
+        console.log(`Warning: ${key} lists unknown repo "${shortName}"\n`)
+      }
+    }
+  }
+  if (contribute['url-template'] && !contribute['url-template'].includes('{repo}')) {
+    throw new Error(
+      `url-template "${contribute['url-template']}" in manifest.contribute.json has no {repo} placeholder`
+    )
   }
-
-  const gitUser = contribute['git-user']
 
   // Step 1: Git pull in root
-  console.log('Pulling latest changes in root...')
-  $.cwd(rootDir)
-  await $`git pull`.nothrow()
+  let rootPull: $.ShellOutput | null = null
+  if (bundlesDir) {
+    console.log('Skipping pull in root (--from-bundles)')
+  } else if (await getTrackingBranch(rootDir)) {
+    console.log('Pulling latest changes in root...')
+    rootPull = await exec(['git', 'pull'], { cwd: rootDir, nothrow: true })
+  } else {
+    console.log('Skipping pull in root (no tracking branch)')
+  }
   console.log('')
 
   // Build list of repos to process
-  const reposToProcess: { shortName: string; folderName: string }[] = []
-  for (const [shortName, folderName] of Object.entries(manifest)) {
-    if (shouldIncludeRepo(shortName, contribute)) {
-      reposToProcess.push({ shortName, folderName })
+  const reposToProcess: RepoTask[] = []
+  for (const { shortName, folderName, dir, project } of manifest.repos) {
+    if (!project && shouldIncludeRepo(shortName, contribute)) {
+      reposToProcess.push({ shortName, folderName, repoDir: dir })
     }
   }
 
-  // Step 2: Update .gitignore
-  if (!contributeModified) {
-    console.log('Updating .gitignore...')
-    const gitignoreLines = ['manifest.contribute.json', '', 'node_modules/', '']
-    for (const { folderName } of reposToProcess) {
-      gitignoreLines.push(`${folderName}/`)
-    }
-    await Bun.write(join(rootDir, '.gitignore'), gitignoreLines.join('\n') + '\n')
-    console.log('')
+  // Step 2 & 3: Merge the included repos (and test projects) into .gitignore and the VS Code workspace
+  const managedRepos = getManagedRepos(manifest, contribute)
+  for (const result of [
+    await syncGitignore(manifest, managedRepos),
+    await syncWorkspaceFile(manifest, managedRepos),
+  ]) {
+    const verb = result.changed ? (globalOptions.dryRun ? 'Would update' : 'Updated') : 'Up to date:'
+    console.log(`${verb} ${basename(result.path)}`)
   }
+  console.log('')
 
-  // Step 3: Update VS Code workspace
-  if (!contributeModified) {
-    console.log('Updating sandstone.code-workspace...')
-    const workspace: Workspace = {
-      folders: [{ name: 'work', path: './' }],
-      settings: {},
-    }
-    for (const { shortName, folderName } of reposToProcess) {
-      workspace.folders.push({ name: shortName, path: folderName })
+  // Step 4: Clone/pull repos and install their dependencies, printing each repo's output once done
+  console.log(`Cloning/pulling and installing ${reposToProcess.length} repos (${jobs} at a time)...\n`)
+  const outcomes = await mapConcurrent(reposToProcess, jobs, async (repo) => {
+    const outcome = await processRepo(repo, { contribute, autoConfirm: args.flag('yes'), bundlesDir })
+    console.log(`[${repo.shortName}]`)
+    for (const line of outcome.lines) {
+      console.log(line)
     }
-    await Bun.write(
-      join(rootDir, 'sandstone.code-workspace'),
-      JSON.stringify(workspace, null, '\t') + '\n'
-    )
     console.log('')
+    return outcome
+  })
+
+  // Step 5: Summary
+  const rows = outcomes.map((o) => [o.shortName, o.git, o.install, o.detail])
+  const rootFailed = rootPull !== null && rootPull.exitCode !== 0
+  if (rootFailed) {
+    rows.unshift(['(root)', 'failed', '-', excerpt(rootPull!)])
   }
+  printTable(['repo', 'git', 'install', 'details'], rows)
 
-  // Step 4: Clone/pull repos
-  for (const { shortName, folderName } of reposToProcess) {
-    const repoDir = join(rootDir, folderName)
-    const repoUrl = `https://github.com/${gitUser}/${folderName}.git`
-
-    if (await fileExists(repoDir)) {
-      // Repo exists - check if we should pull
-      const branch = await getGitBranch(repoDir)
-      const originUrl = await getGitOriginUrl(repoDir)
-
-      if (shortName === 'template' || ((branch === 'main' || branch === 'master') && originUrl?.includes(`${DEFAULT_ORG}/`))) {
-        console.log(`Pulling ${shortName}...`)
-        $.cwd(repoDir)
-        await $`git pull`.nothrow()
-      } else {
-        console.log(
-          `Skipping pull for ${shortName} (branch: ${branch}, not on main or not ${DEFAULT_ORG})`
-        )
-      }
-    } else {
-      // Clone the repo
-      console.log(`Cloning ${shortName} from ${gitUser}...`)
-      $.cwd(rootDir)
-      await $`git clone ${repoUrl} ${folderName}`.nothrow()
-    }
+  const failed = outcomes.filter((o) => o.git === 'failed' || o.install === 'failed').length + (rootFailed ? 1 : 0)
+  if (failed > 0) {
+    console.log(`\nSetup finished with ${failed} failure${failed === 1 ? '' : 's'}.`)
+    process.exitCode = 1
+  } else {
+    console.log('\nSetup complete!')
   }
-  console.log('')
 
-  // Step 5: Run bun install where needed
-  console.log('Installing dependencies...')
-  for (const { shortName, folderName } of reposToProcess) {
-    const repoDir = join(rootDir, folderName)
-
-    if (!(await fileExists(repoDir))) {
-      continue
-    }
-
-    const hasBunLock = await fileExists(join(repoDir, 'bun.lock'))
-    const hasNodeModules = await fileExists(join(repoDir, 'node_modules'))
-
-    if (hasBunLock && !hasNodeModules) {
-      console.log(`Installing dependencies for ${shortName}...`)
-      $.cwd(repoDir)
-      await $`bun install`.nothrow()
-      await $`bun pm trust --all`.nothrow()
-    }
+  return {
+    root: rootPull === null ? 'skipped' : rootFailed ? 'failed' : 'pulled',
+    repos: outcomes.map(({ lines, ...outcome }) => outcome),
   }
-
-  console.log('\nSetup complete!')
 }
 
-async function main() {
-  const args = process.argv.slice(2)
-
-  if (args.includes('--help') || args.includes('-h')) {
-    console.log('Usage: bun scripts/setup.ts [options]')
-    console.log('')
-    console.log('Options:')
-    console.log('  --org <name>     Use a different git org/user (default: sandstone-mc)')
-    console.log('  --skip <repos>   Skip specific repos (comma-separated short names)')
-    console.log('  --only <repos>   Only include specific repos (comma-separated short names)')
-    console.log('  --help, -h       Show this help message')
-    console.log('')
-    console.log('Examples:')
-    console.log('  bun scripts/setup.ts --org MulverineX')
-    console.log('  bun scripts/setup.ts --skip documentation,playground')
-    console.log('  bun scripts/setup.ts --only sandstone,cli,template')
-    process.exit(0)
-  }
-
-  await setup()
+export const setupCommand: CommandSpec = {
+  name: 'setup',
+  summary: 'Clone or pull every repo, install their dependencies and sync the workspace files',
+  description: 'The org and repo filters are saved in manifest.contribute.json for the next runs.',
+  options: [
+    { name: 'org', type: 'string', value: '<name>', description: `Use a different git org/user (default: ${DEFAULT_ORG})` },
+    { name: 'skip', type: 'repos', description: 'Skip specific repos (comma-separated short names)' },
+    { name: 'only', type: 'repos', description: 'Only include specific repos (comma-separated short names)' },
+    {
+      name: 'jobs',
+      type: 'int',
+      value: '<n>',
+      min: 1,
+      description: `Number of repos processed at once (default: ${DEFAULT_JOBS})`,
+    },
+    { name: 'yes', short: 'y', type: 'flag', description: 'Fast-forward forks from upstream without asking' },
+    {
+      name: 'from-bundles',
+      type: 'string',
+      value: '<dir>',
+      description: 'Clone/update the repos from the git bundles of `export-bundles` instead of their remotes',
+    },
+  ],
+  examples: [
+    'setup --org MulverineX',
+    'setup --skip documentation,playground',
+    'setup --only sandstone,cli,template',
+    'setup --from-bundles ../bundles',
+  ],
+  dryRun: true,
+  run: setup,
 }
 
-main().catch((err) => {
-  console.error('Error:', err)
-  process.exit(1)
-})
+if (import.meta.main) {
+  await runCommand(setupCommand, process.argv.slice(2))
+}
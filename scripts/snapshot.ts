@@ -0,0 +1,412 @@
+/**
+ * Workspace snapshots: the commit each repo is on, plus which local packages are linked where.
+ *
+ * Usage:
+ *   sandstone-work snapshot save <name>        - Record the current state in .work/snapshots/<name>.json
+ *   sandstone-work snapshot restore <name>     - Check out the recorded commits and re-apply the links
+ *   sandstone-work snapshot restore <file>     - Same, from a snapshot file shared by someone else
+ *   sandstone-work snapshot list               - List saved snapshots
+ *
+ * Options:
+ *   --force   save: overwrite an existing snapshot. restore: stash uncommitted changes instead of
+ *             refusing to touch dirty repos
+ *
+ * Uncommitted changes aren't part of a snapshot, repos that had some (besides the package.json and
+ * bun.lock changes of `link`) are flagged in it. Restoring refuses repos with uncommitted changes
+ * before touching anything, then unlinks the workspace (so package.json files are back to their
+ * committed state), fetches the commits missing locally, and links the recorded packages again.
+ *
+ * Not to be confused with the template snapshots of template.ts, which save uncommitted work.
+ */
+
+import { $ } from 'bun'
+import { readdir } from 'fs/promises'
+import { basename, join } from 'path'
+import { type CommandSpec, type ParsedArgs, runCommand, runSubcommand } from './lib/cli.ts'
+import { fileExists, writeJson } from './lib/fs.ts'
+import { getGitBranch, getGitOriginUrl, getHeadCommit, getWorkingTreeCounts } from './lib/git.ts'
+import { type RepoEntry, loadManifest, rootDir, stateDir } from './lib/manifest.ts'
+import { type DependencyField, type PackageJson, dependencyFields, isLinked } from './lib/package-json.ts'
+import { exec } from './lib/run.ts'
+import { excerpt, printTable } from './lib/tasks.ts'
+import { type Workspace, scanWorkspace } from './lib/workspace.ts'
+import { linkCommand, unlinkCommand } from './link.ts'
+
+const snapshotsDir = join(stateDir, 'snapshots')
+
+interface RepoSnapshot {
+  folder: string
+  /** null when detached */
+  branch: string | null
+  commit: string
+  remote: string | null
+  /** Had uncommitted or untracked changes, which aren't in the snapshot */
+  dirty: boolean
+}
+
+interface LinkSnapshot {
+  /** Consumer repo short name */
+  repo: string
+  /** Consumer package directory relative to the repo */
+  path: string
+  field: DependencyField
+  name: string
+}
+
+interface WorkspaceSnapshot {
+  name: string
+  createdAt: string
+  repos: Record<string, RepoSnapshot>
+  links: LinkSnapshot[]
+}
+
+interface RestoreOutcome {
+  repo: string
+  result: 'checked out' | 'unchanged' | 'cloned' | 'failed' | 'skipped'
+  detail: string
+}
+
+function snapshotPath(nameOrFile: string): string {
+  return nameOrFile.endsWith('.json') ? nameOrFile : join(snapshotsDir, `${nameOrFile}.json`)
+}
+
+/** Whether a package.json only differs from its committed version by the specifiers `link` wrote. */
+async function hasLinkChangesOnly(repoDir: string, file: string): Promise<boolean> {
+  const committed = await $`git -C ${repoDir} show HEAD:${file}`.quiet().nothrow()
+  if (committed.exitCode !== 0) {
+    return false
+  }
+  try {
+    const before: PackageJson = JSON.parse(committed.stdout.toString())
+    const after: PackageJson = await Bun.file(join(repoDir, file)).json()
+    for (const field of dependencyFields) {
+      for (const [name, specifier] of Object.entries(after[field] ?? {})) {
+        if (isLinked(specifier)) {
+          const original = before[field]?.[name]
+          after[field] = { ...after[field] }
+          if (original === undefined) {
+            delete after[field]![name]
+          } else {
+            after[field]![name] = original
+          }
+        }
+      }
+    }
+    return Bun.deepEquals(before, after)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Uncommitted changes of a repo, leaving out the ones `link` makes (and `unlink` undoes): package.json
+ * files only differing by linked specifiers, and bun.lock files in repos with links.
+ */
+async function getOwnChanges(repo: RepoEntry, workspace: Workspace): Promise<{ modified: number; untracked: number }> {
+  const status = await $`git -C ${repo.dir} status --porcelain`.quiet().nothrow()
+  const lines = status.stdout.toString().split('\n').filter(Boolean)
+  const linked = workspace.consumers.some((c) => c.repo === repo && c.dependencies.some((d) => isLinked(d.specifier)))
+
+  let modified = 0
+  let untracked = 0
+  for (const line of lines) {
+    const file = line.slice(3)
+    if (line.startsWith('??')) {
+      untracked++
+      continue
+    }
+    const name = basename(file)
+    const linkChange =
+      linked && (name === 'bun.lock' || (name === 'package.json' && (await hasLinkChangesOnly(repo.dir, file))))
+    if (!linkChange) {
+      modified++
+    }
+  }
+  return { modified, untracked }
+}
+
+async function save(name: string, force: boolean) {
+  if (!/^[a-z0-9][a-z0-9._-]*$/i.test(name)) {
+    throw new Error(`"${name}" is not a valid snapshot name (letters, digits, ".", "_" and "-").`)
+  }
+  const path = snapshotPath(name)
+  if (!force && (await fileExists(path))) {
+    throw new Error(`Snapshot ${name} already exists. Use --force to overwrite it.`)
+  }
+
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const snapshot: WorkspaceSnapshot = { name, createdAt: new Date().toISOString(), repos: {}, links: [] }
+  const dirty: string[] = []
+
+  for (const repo of manifest.repos.filter((r) => !r.project)) {
+    const commit = (await fileExists(join(repo.dir, '.git'))) ? await getHeadCommit(repo.dir) : null
+    if (!commit) {
+      continue
+    }
+    const { modified, untracked } = await getOwnChanges(repo, workspace)
+    snapshot.repos[repo.shortName] = {
+      folder: repo.folderName,
+      branch: (await getGitBranch(repo.dir)) || null,
+      commit,
+      remote: await getGitOriginUrl(repo.dir),
+      dirty: modified + untracked > 0,
+    }
+    if (modified + untracked > 0) {
+      dirty.push(repo.shortName)
+    }
+  }
+
+  for (const consumer of workspace.consumers) {
+    for (const { pkg, field, specifier } of consumer.dependencies) {
+      if (!isLinked(specifier)) {
+        continue
+      }
+      snapshot.links.push({ repo: consumer.repo.shortName, path: consumer.path, field, name: pkg.name })
+    }
+  }
+
+  await writeJson(path, snapshot)
+
+  printTable(
+    ['repo', 'branch', 'commit', 'changes'],
+    Object.entries(snapshot.repos).map(([repo, s]) => [
+      repo,
+      s.branch ?? '(detached)',
+      s.commit.slice(0, 7),
+      s.dirty ? 'uncommitted' : '',
+    ])
+  )
+  if (snapshot.links.length > 0) {
+    console.log(`\nLinks: ${[...new Set(snapshot.links.map((l) => `${l.name} -> ${l.repo}`))].join(', ')}`)
+  }
+  if (dirty.length > 0) {
+    console.log(`\nWarning: uncommitted changes in ${dirty.join(', ')} are not part of the snapshot.`)
+  }
+  console.log(`\nSaved snapshot ${name} (${path})`)
+  return snapshot
+}
+
+async function list() {
+  const names = (await fileExists(snapshotsDir))
+    ? (await readdir(snapshotsDir)).filter((f) => f.endsWith('.json'))
+    : []
+  if (names.length === 0) {
+    console.log('No workspace snapshots.')
+    return []
+  }
+
+  const snapshots: WorkspaceSnapshot[] = await Promise.all(names.map((f) => Bun.file(join(snapshotsDir, f)).json()))
+  printTable(
+    ['name', 'created', 'repos', 'links'],
+    snapshots
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((s) => [
+        s.name,
+        new Date(s.createdAt).toLocaleString(),
+        String(Object.keys(s.repos).length),
+        String(s.links.length),
+      ])
+  )
+  return snapshots.map(({ name, createdAt, repos, links }) => ({ name, createdAt, repos: Object.keys(repos), links }))
+}
+
+async function hasCommit(dir: string, commit: string): Promise<boolean> {
+  return (await $`git -C ${dir} cat-file -e ${commit}^{commit}`.quiet().nothrow()).exitCode === 0
+}
+
+async function isAtRecorded(repo: RepoEntry, recorded: RepoSnapshot): Promise<boolean> {
+  const head = await getHeadCommit(repo.dir)
+  const branch = (await getGitBranch(repo.dir)) || null
+  return head === recorded.commit && branch === recorded.branch
+}
+
+async function restoreRepo(repo: RepoEntry, recorded: RepoSnapshot, force: boolean): Promise<RestoreOutcome> {
+  const outcome: RestoreOutcome = { repo: repo.shortName, result: 'failed', detail: '' }
+  const short = recorded.commit.slice(0, 7)
+
+  let cloned = false
+  if (!(await fileExists(repo.dir))) {
+    if (!recorded.remote) {
+      outcome.detail = 'not cloned and no remote recorded'
+      return outcome
+    }
+    console.log(`Cloning ${repo.folderName} from ${recorded.remote}...`)
+    const clone = await exec(['git', 'clone', recorded.remote, repo.folderName], { cwd: rootDir, nothrow: true })
+    if (clone.exitCode !== 0) {
+      outcome.detail = 'clone failed'
+      return outcome
+    }
+    cloned = true
+  }
+
+  if (!cloned && (await isAtRecorded(repo, recorded))) {
+    return { ...outcome, result: 'unchanged', detail: recorded.branch ?? short }
+  }
+
+  // Without --force, restore() refused repos with changes of their own
+  const { dirty, untracked } = await getWorkingTreeCounts(repo.dir)
+  if (force && dirty + untracked > 0) {
+    const stash = ['git', '-C', repo.dir, 'stash', 'push', '--include-untracked', '-m', 'snapshot restore']
+    const stashed = await exec(stash, { quiet: true, nothrow: true })
+    if (stashed.exitCode !== 0) {
+      outcome.detail = `stashing changes failed: ${excerpt(stashed)}`
+      return outcome
+    }
+    outcome.detail = 'changes stashed, '
+  }
+
+  if (!(await hasCommit(repo.dir, recorded.commit))) {
+    console.log(`Fetching ${short} into ${repo.folderName}...`)
+    await exec(['git', '-C', repo.dir, 'fetch', 'origin'], { quiet: true, nothrow: true })
+    // The commit may only exist on the remote the snapshot was taken from (someone else's fork)
+    const origin = await getGitOriginUrl(repo.dir)
+    if (!(await hasCommit(repo.dir, recorded.commit)) && recorded.remote && recorded.remote !== origin) {
+      await exec(['git', '-C', repo.dir, 'fetch', recorded.remote], { quiet: true, nothrow: true })
+    }
+    if (!(await hasCommit(repo.dir, recorded.commit))) {
+      outcome.detail += `commit ${short} not found on the remotes`
+      return outcome
+    }
+  }
+
+  // Use the recorded branch when it still points at the commit, or doesn't exist yet
+  let target = recorded.commit
+  let where = `${short} (detached)`
+  if (recorded.branch) {
+    const branchRef = `refs/heads/${recorded.branch}`
+    const tip = await $`git -C ${repo.dir} rev-parse --verify --quiet ${branchRef}`.quiet().nothrow()
+    if (tip.exitCode !== 0) {
+      await exec(['git', '-C', repo.dir, 'branch', recorded.branch, recorded.commit], { quiet: true })
+      target = recorded.branch
+      where = `${recorded.branch} (created at ${short})`
+    } else if (tip.stdout.toString().trim() === recorded.commit) {
+      target = recorded.branch
+      where = recorded.branch
+    } else {
+      where = `${short} (detached, ${recorded.branch} has moved on)`
+    }
+  }
+
+  const checkout = await exec(['git', '-C', repo.dir, 'checkout', '--quiet', target], { quiet: true, nothrow: true })
+  if (checkout.exitCode !== 0) {
+    outcome.detail += `checkout failed: ${checkout.stderr.toString().trim().split('\n')[0]}`
+    return outcome
+  }
+
+  outcome.result = cloned ? 'cloned' : 'checked out'
+  outcome.detail += where
+  return outcome
+}
+
+async function restore(nameOrFile: string, force: boolean) {
+  const path = snapshotPath(nameOrFile)
+  if (!(await fileExists(path))) {
+    throw new Error(`No snapshot ${nameOrFile} (${path}). Use \`list\` to see them.`)
+  }
+  const snapshot: WorkspaceSnapshot = await Bun.file(path).json()
+  const manifest = await loadManifest()
+
+  // Refuse before changing anything if repos to check out have changes of their own
+  const workspace = await scanWorkspace(manifest)
+  if (!force) {
+    const dirty: string[] = []
+    for (const [shortName, recorded] of Object.entries(snapshot.repos)) {
+      const repo = manifest.repos.find((r) => r.shortName === shortName)
+      if (!repo || repo.project || !(await fileExists(repo.dir)) || (await isAtRecorded(repo, recorded))) {
+        continue
+      }
+      const { modified, untracked } = await getOwnChanges(repo, workspace)
+      if (modified + untracked > 0) {
+        dirty.push(`${shortName} (${modified} modified, ${untracked} untracked)`)
+      }
+    }
+    if (dirty.length > 0) {
+      throw new Error(`Uncommitted changes in ${dirty.join(', ')}. Commit them, or use --force to stash them.`)
+    }
+  }
+
+  // Put package.json files back to their committed state before touching the repos
+  if (workspace.consumers.some((c) => c.dependencies.some((d) => isLinked(d.specifier)))) {
+    console.log('Unlinking the workspace first...\n')
+    await runSubcommand(unlinkCommand, [])
+    console.log('')
+  }
+
+  const outcomes: RestoreOutcome[] = []
+  for (const [shortName, recorded] of Object.entries(snapshot.repos)) {
+    const repo = manifest.repos.find((r) => r.shortName === shortName)
+    if (!repo || repo.project) {
+      outcomes.push({ repo: shortName, result: 'skipped', detail: 'not in manifest.json' })
+      continue
+    }
+    outcomes.push(await restoreRepo(repo, recorded, force))
+  }
+
+  // Link the recorded packages into each consumer repo again
+  const linksByRepo = new Map<string, Set<string>>()
+  for (const link of snapshot.links) {
+    if (!manifest.repos.some((r) => r.shortName === link.repo)) {
+      console.log(`Not linking ${link.name} into ${link.repo}: not in manifest.json`)
+      continue
+    }
+    linksByRepo.set(link.repo, (linksByRepo.get(link.repo) ?? new Set()).add(link.name))
+  }
+  for (const [repo, names] of linksByRepo) {
+    console.log(`\nLinking ${[...names].join(', ')} into ${repo}...`)
+    // The links were there when the snapshot was taken, whatever the ranges say
+    const packages = [...names].join(',')
+    try {
+      await runSubcommand(linkCommand, ['--into', repo, '--package', packages, '--ignore-compat'])
+    } catch (err) {
+      const message = String((err as Error).message ?? err).split('\n')[0]
+      outcomes.push({ repo, result: 'failed', detail: `linking failed: ${message}` })
+    }
+  }
+
+  console.log('')
+  printTable(['repo', 'result', 'details'], outcomes.map((o) => [o.repo, o.result, o.detail]))
+
+  const failed = outcomes.filter((o) => o.result === 'failed' || o.result === 'skipped').length
+  if (failed > 0) {
+    console.log(`\nSnapshot ${snapshot.name} partially restored, ${failed} repo${failed === 1 ? '' : 's'} not restored.`)
+    process.exitCode = 1
+  } else {
+    console.log(`\nRestored snapshot ${snapshot.name} from ${new Date(snapshot.createdAt).toLocaleString()}`)
+  }
+  return outcomes
+}
+
+async function snapshot(args: ParsedArgs) {
+  const [command, name] = args.positionals
+  const force = args.flag('force')
+
+  if (command === 'save' && name) {
+    return await save(name, force)
+  } else if (command === 'restore' && name) {
+    return await restore(name, force)
+  } else if (command === 'list') {
+    return await list()
+  }
+  throw new Error('Expected `save <name>`, `restore <name|file>` or `list` (see --help)')
+}
+
+export const snapshotCommand: CommandSpec = {
+  name: 'snapshot',
+  summary: 'Save and restore the commit of every repo and the linked packages',
+  usage: '<save <name>|restore <name|file>|list>',
+  description: 'Snapshots are saved in .work/snapshots/, share the file to let someone else restore it.',
+  options: [
+    {
+      name: 'force',
+      type: 'flag',
+      description: 'save: overwrite an existing snapshot. restore: stash uncommitted changes of dirty repos',
+    },
+  ],
+  examples: ['snapshot save before-refactor', 'snapshot restore before-refactor', 'snapshot list'],
+  run: snapshot,
+}
+
+if (import.meta.main) {
+  await runCommand(snapshotCommand, process.argv.slice(2))
+}
@@ -0,0 +1,161 @@
+/**
+ * Status dashboard for the whole workspace.
+ *
+ * Usage:
+ *   sandstone-work status          - Print the state of every repo in manifest.json
+ *   sandstone-work status --json   - Print the same as JSON
+ */
+
+import { join } from 'path'
+import { checkBuild } from './lib/build-cache.ts'
+import { type CommandSpec, runCommand } from './lib/cli.ts'
+import { fileExists } from './lib/fs.ts'
+import { getAheadBehind, getGitBranch, getGitOriginUrl, getRemoteOwner, getWorkingTreeCounts } from './lib/git.ts'
+import { DEFAULT_ORG, type RepoEntry, loadManifest } from './lib/manifest.ts'
+import { isLinked, isPacked } from './lib/package-json.ts'
+import { globalOptions } from './lib/run.ts'
+import { type Workspace, scanWorkspace } from './lib/workspace.ts'
+
+interface RepoStatus {
+  repo: string
+  folder: string
+  /** Local test project (not a git repo) */
+  project: boolean
+  cloned: boolean
+  branch: string | null
+  /** null without an upstream */
+  ahead: number | null
+  behind: number | null
+  dirty: number
+  untracked: number
+  origin: string | null
+  owner: string | null
+  fork: boolean
+  dependencies: 'installed' | 'missing' | 'none'
+  builds: { name: string; fresh: boolean; reason: string }[]
+  links: { consumer: string; name: string; field: string; specifier: string; linked: boolean }[]
+}
+
+async function getRepoStatus(repo: RepoEntry, workspace: Workspace): Promise<RepoStatus> {
+  const status: RepoStatus = {
+    repo: repo.shortName,
+    folder: repo.folderName,
+    project: repo.project,
+    cloned: await fileExists(join(repo.dir, repo.project ? 'package.json' : '.git')),
+    branch: null,
+    ahead: null,
+    behind: null,
+    dirty: 0,
+    untracked: 0,
+    origin: null,
+    owner: null,
+    fork: false,
+    dependencies: 'none',
+    builds: [],
+    links: [],
+  }
+
+  if (!status.cloned) {
+    return status
+  }
+
+  if (!repo.project) {
+    status.branch = await getGitBranch(repo.dir)
+    const aheadBehind = await getAheadBehind(repo.dir)
+    status.ahead = aheadBehind?.ahead ?? null
+    status.behind = aheadBehind?.behind ?? null
+    Object.assign(status, await getWorkingTreeCounts(repo.dir))
+    status.origin = await getGitOriginUrl(repo.dir)
+    status.owner = status.origin ? getRemoteOwner(status.origin) : null
+    status.fork = status.owner !== null && status.owner !== DEFAULT_ORG
+  }
+
+  if (await fileExists(join(repo.dir, 'package.json'))) {
+    status.dependencies = (await fileExists(join(repo.dir, 'node_modules'))) ? 'installed' : 'missing'
+  }
+
+  for (const pkg of workspace.packages.filter((p) => p.repo === repo && p.build)) {
+    const { fresh, reason } = await checkBuild(pkg)
+    status.builds.push({ name: pkg.name, fresh, reason })
+  }
+
+  for (const consumer of workspace.consumers.filter((c) => c.repo === repo)) {
+    for (const { pkg, field, specifier } of consumer.dependencies) {
+      if (field === 'peerDependencies') {
+        continue
+      }
+      status.links.push({ consumer: consumer.path, name: pkg.name, field, specifier, linked: isLinked(specifier) })
+    }
+  }
+
+  return status
+}
+
+function formatSync(status: RepoStatus): string {
+  if (status.ahead === null || status.behind === null) {
+    return 'no upstream'
+  }
+  if (status.ahead === 0 && status.behind === 0) {
+    return 'up to date'
+  }
+  return [status.ahead && `${status.ahead} ahead`, status.behind && `${status.behind} behind`].filter(Boolean).join(', ')
+}
+
+function printStatus(status: RepoStatus) {
+  console.log(`${status.repo} (${status.folder})`)
+
+  if (!status.cloned) {
+    console.log(status.project ? '  project folder missing' : '  not cloned')
+    console.log('')
+    return
+  }
+
+  if (status.project) {
+    console.log('  test project (created from a template)')
+  } else {
+    const changes =
+      status.dirty === 0 && status.untracked === 0
+        ? 'clean'
+        : `${status.dirty} modified, ${status.untracked} untracked`
+
+    console.log(`  branch:  ${status.branch || '(detached)'} [${formatSync(status)}]`)
+    console.log(`  changes: ${changes}`)
+    console.log(`  origin:  ${status.owner ?? status.origin ?? 'none'}${status.fork ? ' (fork)' : ''}`)
+  }
+  console.log(`  deps:    ${status.dependencies === 'none' ? 'no package.json' : status.dependencies}`)
+
+  for (const build of status.builds) {
+    console.log(`  build:   ${build.name} ${build.fresh ? 'fresh' : `stale (${build.reason})`}`)
+  }
+  for (const link of status.links) {
+    const where = link.consumer === '.' ? '' : `${link.consumer}: `
+    const state = isPacked(link.specifier) ? 'packed' : link.linked ? 'linked' : `npm (${link.specifier})`
+    console.log(`  link:    ${where}${link.name} ${state}`)
+  }
+
+  console.log('')
+}
+
+async function status() {
+  const manifest = await loadManifest()
+  const workspace = await scanWorkspace(manifest)
+  const statuses = await Promise.all(manifest.repos.map((repo) => getRepoStatus(repo, workspace)))
+
+  if (!globalOptions.json) {
+    for (const repoStatus of statuses) {
+      printStatus(repoStatus)
+    }
+  }
+  return statuses
+}
+
+export const statusCommand: CommandSpec = {
+  name: 'status',
+  summary: 'Print the state of every repo in manifest.json',
+  dryRun: true,
+  run: status,
+}
+
+if (import.meta.main) {
+  await runCommand(statusCommand, process.argv.slice(2))
+}
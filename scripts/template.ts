@@ -2,178 +2,215 @@
  * Template script to prepare the sandstone-template for development.
  *
  * Usage:
- *   bun scripts/template.ts              - Checkout latest pack template
- *   bun scripts/template.ts --library    - Checkout latest library template
- *   bun scripts/template.ts --help       - Show help
+ *   sandstone-work template              - Checkout latest pack template
+ *   sandstone-work template --library    - Checkout latest library template
+ *   sandstone-work template --version ^1.2  - Checkout the latest template matching a version/range
+ *   sandstone-work template --list       - List available pack and library templates
+ *   sandstone-work template --list-snapshots     - List saved snapshots of template work
+ *   sandstone-work template --restore <snapshot> - Restore a snapshot (checking out its branch)
+ *   sandstone-work template --help       - Show help
+ *
+ * Uncommitted and untracked work in sandstone-template is saved into a snapshot under
+ * `.work/template-snapshots/` before switching branches (see lib/template-snapshots.ts). `--force`
+ * discards it instead.
  */
 
-import { $ } from 'bun'
-import { access } from 'fs/promises'
 import { join } from 'path'
-
-const rootDir = join(import.meta.dir, '..')
-const templateDir = join(rootDir, 'sandstone-template')
-
-type TemplateType = 'pack' | 'library'
-
-async function fileExists(path: string): Promise<boolean> {
-  try {
-    await access(path)
-    return true
-  } catch {
-    return false
+import { type CommandSpec, type ParsedArgs, runCommand } from './lib/cli.ts'
+import { fileExists } from './lib/fs.ts'
+import { loadLinkState } from './lib/link-state.ts'
+import { type Manifest, getPackages, getRepo, loadManifest, stateDir } from './lib/manifest.ts'
+import { type PackageJson, isLinked, readPackageJson } from './lib/package-json.ts'
+import { exec } from './lib/run.ts'
+import { getReleaseVersion, isValidRange, satisfies } from './lib/semver.ts'
+import {
+  type SnapshotDirs,
+  getCurrentBranch,
+  loadSnapshots,
+  restoreSnapshot,
+  switchBranch,
+} from './lib/template-snapshots.ts'
+import { type TemplateType, findLatestBranch, getRemoteBranches, sortBranches } from './lib/templates.ts'
+
+let templateDir: string
+const snapshotsDir = join(stateDir, 'template-snapshots')
+
+function listBranches(branches: string[], currentBranch: string | null) {
+  for (const type of ['pack', 'library'] as TemplateType[]) {
+    const sorted = sortBranches(branches, type)
+    console.log(`${type} templates:`)
+    if (sorted.length === 0) {
+      console.log('  (none)')
+    }
+    for (const branch of sorted) {
+      console.log(branch === currentBranch ? `* ${branch} (current)` : `  ${branch}`)
+    }
   }
 }
 
-function parseVersion(version: string): number[] {
-  const [main, prerelease] = version.split('-')
-  const mainParts = main.split('.').map(Number)
-
-  if (!prerelease) {
-    return [...mainParts, Infinity, Infinity]
+async function listSnapshots() {
+  const snapshots = await loadSnapshots(snapshotsDir)
+  if (snapshots.length === 0) {
+    console.log('No template snapshots.')
+    return
   }
-
-  const prereleaseOrder: Record<string, number> = { alpha: 0, beta: 1, rc: 2 }
-  const match = prerelease.match(/^(alpha|beta|rc)\.(\d+)$/)
-  if (match) {
-    const [, type, num] = match
-    return [...mainParts, prereleaseOrder[type], Number(num)]
+  for (const snapshot of snapshots) {
+    const contents = [snapshot.hasChanges && 'changes', snapshot.untracked.length && `${snapshot.untracked.length} untracked`]
+      .filter(Boolean)
+      .join(', ')
+    console.log(`${snapshot.name}  (${snapshot.branch ?? snapshot.commit.slice(0, 7)}, ${new Date(snapshot.createdAt).toLocaleString()}: ${contents})`)
   }
-
-  return [...mainParts, -1, -1]
 }
 
-function compareVersions(a: string, b: string): number {
-  const partsA = parseVersion(a)
-  const partsB = parseVersion(b)
-
-  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-    const partA = partsA[i] ?? 0
-    const partB = partsB[i] ?? 0
-    if (partA !== partB) {
-      return partA - partB
-    }
+async function installDependencies() {
+  const hasBunLock = await fileExists(join(templateDir, 'bun.lock'))
+  const hasNodeModules = await fileExists(join(templateDir, 'node_modules'))
+  if (hasBunLock && !hasNodeModules) {
+    process.stdout.write('Installing dependencies... ')
+    await exec(['bun', 'install'], { cwd: templateDir, quiet: true })
+    await exec(['bun', 'pm', 'trust', '--all'], { cwd: templateDir, quiet: true, nothrow: true })
+    console.log('done')
   }
-  return 0
 }
 
-async function getRemoteBranches(): Promise<string[]> {
-  const result = await $`git -C ${templateDir} branch -r`.quiet().nothrow()
-  if (result.exitCode !== 0) {
-    return []
+/** The sandstone range the template declares, looking through links to the range they replaced. */
+async function getTemplateSandstoneRange(pkg: PackageJson): Promise<string | null> {
+  const specifier = pkg.dependencies?.sandstone ?? pkg.devDependencies?.sandstone
+  if (!specifier) {
+    return null
   }
-  return result.stdout
-    .toString()
-    .split('\n')
-    .map((b) => b.trim())
-    .filter((b) => b && !b.includes('->'))
-    .map((b) => b.replace('origin/', ''))
-}
-
-async function getCurrentBranch(): Promise<string | null> {
-  const result = await $`git -C ${templateDir} branch --show-current`.quiet().nothrow()
-  if (result.exitCode === 0) {
-    return result.stdout.toString().trim()
+  if (!isLinked(specifier)) {
+    return specifier
   }
-  return null
+  const state = await loadLinkState()
+  const record = state.links.find((r) => r.repo === 'template' && r.path === '.' && r.name === 'sandstone')
+  return record?.original ?? null
 }
 
-function findLatestBranch(branches: string[], prefix: TemplateType): string | null {
-  const filtered = branches.filter((b) => b.startsWith(`${prefix}-`))
-  if (filtered.length === 0) return null
+async function warnOnSandstoneMismatch(manifest: Manifest) {
+  const sandstone = getPackages(manifest).find((p) => p.name === 'sandstone')
+  if (!sandstone || !(await fileExists(join(sandstone.dir, 'package.json')))) {
+    return
+  }
 
-  return filtered.sort((a, b) => {
-    const versionA = a.replace(`${prefix}-`, '')
-    const versionB = b.replace(`${prefix}-`, '')
-    return compareVersions(versionB, versionA)
-  })[0]
-}
+  const localVersion = (await readPackageJson(sandstone.dir)).version
+  const range = await getTemplateSandstoneRange(await readPackageJson(templateDir))
+  if (!localVersion || !range || !isValidRange(range)) {
+    return
+  }
 
-function parseArgs(): { type: TemplateType; help: boolean } {
-  const args = process.argv.slice(2)
-  return {
-    type: args.includes('--library') ? 'library' : 'pack',
-    help: args.includes('--help') || args.includes('-h'),
+  // Like link's check (see lib/compat.ts): a local prerelease is matched as the release it precedes
+  if (!satisfies(getReleaseVersion(localVersion), range)) {
+    console.log(`Warning: the template requires sandstone ${range}, but the local sandstone is ${localVersion}`)
   }
 }
 
-function showHelp() {
-  console.log(`Usage: bun scripts/template.ts [options]
+async function template(args: ParsedArgs) {
+  const type: TemplateType = args.flag('library') ? 'library' : 'pack'
+  const version = args.string('version')
+  const force = args.flag('force')
+  const restore = args.string('restore')
 
-Options:
-  --library    Use library template instead of pack template
-  --help, -h   Show this help message
-
-Examples:
-  bun run dev:template              Checkout latest pack template
-  bun run dev:template --library    Checkout latest library template`)
-}
+  const manifest = await loadManifest()
+  templateDir = getRepo(manifest, 'template').dir
+  const dirs: SnapshotDirs = { templateDir, snapshotsDir }
 
-async function dev() {
-  const { type, help } = parseArgs()
+  if (!(await fileExists(templateDir))) {
+    throw new Error('sandstone-template not found. Run `sandstone-work setup` first.')
+  }
 
-  if (help) {
-    showHelp()
-    process.exit(0)
+  if (args.flag('list-snapshots')) {
+    await listSnapshots()
+    return { snapshots: await loadSnapshots(snapshotsDir) }
   }
 
-  if (!(await fileExists(templateDir))) {
-    console.error('Error: sandstone-template not found. Run `bun run setup` first.')
-    process.exit(1)
+  if (restore) {
+    await restoreSnapshot(dirs, restore, force)
+    await installDependencies()
+    console.log('Ready!')
+    return { restored: restore, branch: await getCurrentBranch(templateDir) }
   }
 
   // Fetch latest
   process.stdout.write('Fetching branches... ')
-  $.cwd(templateDir)
-  await $`git fetch --prune`.quiet().nothrow()
+  await exec(['git', '-C', templateDir, 'fetch', '--prune'], { quiet: true, nothrow: true })
   console.log('done')
 
   // Find target branch
-  const branches = await getRemoteBranches()
-  const targetBranch = findLatestBranch(branches, type)
+  const branches = await getRemoteBranches(templateDir)
+  const currentBranch = await getCurrentBranch(templateDir)
+
+  if (args.flag('list')) {
+    listBranches(branches, currentBranch)
+    return {
+      current: currentBranch,
+      pack: sortBranches(branches, 'pack'),
+      library: sortBranches(branches, 'library'),
+    }
+  }
+
+  const targetBranch = findLatestBranch(branches, type, version)
 
   if (!targetBranch) {
-    console.error(`Error: No ${type}-* branches found.`)
-    process.exit(1)
+    if (version) {
+      const available = sortBranches(branches, type).join(', ') || 'none'
+      throw new Error(`No ${type}-* branch matches ${version}.\nAvailable: ${available}`)
+    }
+    throw new Error(`No ${type}-* branches found.`)
   }
 
   // Checkout if needed
-  const currentBranch = await getCurrentBranch()
-
   if (currentBranch === targetBranch) {
     console.log(`Branch: ${targetBranch} (current)`)
   } else {
-    // Clean untracked/ignored files and reset tracked files before switching
-    process.stdout.write('Cleaning working directory... ')
-    await $`git -C ${templateDir} reset --hard`.quiet().nothrow()
-    await $`git -C ${templateDir} clean -fdx`.quiet().nothrow()
-    console.log('done')
-
-    process.stdout.write(`Checking out ${targetBranch}... `)
-    const result = await $`git -C ${templateDir} checkout ${targetBranch}`.quiet().nothrow()
-    if (result.exitCode !== 0) {
-      console.log('failed\n')
-      console.error(result.stderr.toString().trim())
-      process.exit(1)
-    }
-    console.log('done')
+    await switchBranch(dirs, targetBranch, force)
   }
 
   // Install deps if needed
-  const hasBunLock = await fileExists(join(templateDir, 'bun.lock'))
-  const hasNodeModules = await fileExists(join(templateDir, 'node_modules'))
-  if (hasBunLock && !hasNodeModules) {
-    process.stdout.write('Installing dependencies... ')
-    $.cwd(templateDir)
-    await $`bun install`.quiet()
-    await $`bun pm trust --all`.quiet().nothrow()
-    console.log('done')
-  }
+  await installDependencies()
+
+  await warnOnSandstoneMismatch(manifest)
 
   console.log('Ready!')
+  return { branch: targetBranch, previous: currentBranch }
 }
 
-dev().catch((err) => {
-  console.error('Error:', err.message ?? err)
-  process.exit(1)
-})
+export const templateCommand: CommandSpec = {
+  name: 'template',
+  summary: 'Check out a sandstone-template branch, saving pending work into a snapshot',
+  options: [
+    { name: 'library', type: 'flag', description: 'Use library template instead of pack template' },
+    {
+      name: 'version',
+      type: 'string',
+      value: '<range>',
+      description: 'Checkout the latest template matching a version or range (1.2, ^1.2, ~1.2.3, >=1.0 <2, ^1 || ^2)',
+    },
+    { name: 'list', type: 'flag', description: 'List available pack and library templates' },
+    {
+      name: 'list-snapshots',
+      type: 'flag',
+      description: 'List snapshots of template work saved before switching branches',
+    },
+    {
+      name: 'restore',
+      type: 'string',
+      value: '<name>',
+      description: 'Restore a snapshot, checking out the branch it was taken on',
+    },
+    { name: 'force', type: 'flag', description: 'Discard local changes instead of saving them into a snapshot' },
+  ],
+  dryRun: true,
+  examples: [
+    'template                  Checkout latest pack template',
+    'template --library        Checkout latest library template',
+    'template --version ^1.2   Checkout latest 1.x pack template from 1.2 on',
+    'template --list           List templates',
+    'template --restore pack-1.2.0-20250101-120000   Restore saved work',
+  ],
+  run: template,
+}
+
+if (import.meta.main) {
+  await runCommand(templateCommand, process.argv.slice(2))
+}